@@ -2,295 +2,1158 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
-import { Upload, Download, RefreshCw, X } from "lucide-react";
+import { Upload, Download, RefreshCw, X, Dices, Undo2, Redo2, Camera, ChevronUp, ChevronDown, ZoomIn, ZoomOut } from "lucide-react";
+import {
+  ALGORITHMS,
+  COLOR_METRICS,
+  CUSTOM_KERNEL,
+  DITHER_SIZES,
+  grayValue,
+  isDiffusion,
+  LUMA_MODELS,
+  paintIndices,
+  toGray,
+  type Algorithm,
+  type ColorMetric,
+  type ColorMode,
+  type LumaModel,
+} from "@/lib/dither";
+import { BLUE_NOISE_SIZES } from "@/lib/blueNoise";
+import { HALFTONE_SHAPES, type HalftoneShape } from "@/lib/halftone";
+import { parseKernel } from "@/lib/kernels";
+import { randomSeed } from "@/lib/prng";
+import { downloadBlob, exportBaseName, formatBytes } from "@/lib/download";
+import { encodeIndexedPng } from "@/lib/png";
+import { readPixels, rgbaToCanvas } from "@/lib/raster";
+import { exportJob } from "@/lib/pipeline";
+import { RESAMPLE_METHODS, workingSize, type ResampleMethod } from "@/lib/resample";
+import { decodeGif, encodeGif, type DecodedGif, type GifOutFrame } from "@/lib/gif";
+import { createZip, uniqueNames, type ZipEntry } from "@/lib/zip";
+import { createRegion, type Region, type RegionJob } from "@/lib/regions";
+import { COMPARE_AXES, compareCells, isSweep, matchesPatch, renderSheet, type CompareAxis, type CompareCell, type SheetCell } from "@/lib/compare";
+import { maskToSvg, type SvgGeometry } from "@/lib/svg";
+import { decodeSettingsHash, DEFAULT_SETTINGS, describeChange, encodeSettingsHash, type EditorSettings } from "@/lib/settings";
+import { useHistory } from "@/hooks/useHistory";
+import { useZoomPan, ZOOM_STEPS } from "@/hooks/useZoomPan";
+import { GPU_ALGORITHMS } from "@/lib/gpuDither";
+import { BUILT_IN_PRESETS, loadUserPresets, parsePresetFile, presetFile, saveUserPresets, type Preset } from "@/lib/presets";
+import { BITMAP_FORMATS, encodeBitmap, maskToBits, type BitmapFormat, type PackOrder } from "@/lib/bitmap";
+import { PALETTES } from "@/lib/palettes";
+import { createFilter, FILTER_KINDS, FILTER_PARAMS, type FilterKind, type FilterStep } from "@/lib/filters";
+import { autoLevels, histogram, IDENTITY_CURVE, toneCurve, type CurvePoint } from "@/lib/tone";
+import {
+  encodePalette,
+  findPalette,
+  loadUserPalettes,
+  MAX_PALETTE_COLORS,
+  PALETTE_FORMATS,
+  parsePaletteFile,
+  saveUserPalettes,
+  uniquePaletteName,
+  type CustomPalette,
+  type PaletteFormat,
+} from "@/lib/customPalettes";
+import { createDitherRunner, isAbortError, type DitherJob, type DitherRunner } from "@/lib/ditherClient";
 
 /**
  * Monochrome Dithering Editor
  * -------------------------------------------------------------
  * Single-file React component. Upload an image, choose an algorithm,
- * tweak tonal controls, pick a palette, preview side-by-side, and export PNG.
+ * tweak tonal controls, pick a palette (two colours or an N-colour ramp),
+ * preview side-by-side, and export PNG.
  *
  * Tailwind is available by default in this environment.
  */
 
-// ---------- Utility: palettes ----------
-const PALETTES: Record<string, { fg: string; bg: string }> = {
-  "Black & White": { fg: "#000000", bg: "#ffffff" },
-  Sepia: { fg: "#3e2f1c", bg: "#f3e8d0" },
-  "Indigo & Ivory": { fg: "#1e1b4b", bg: "#fffff0" },
-  "Teal & Sand": { fg: "#0f766e", bg: "#fbf1c7" },
-  "Crimson & Cream": { fg: "#8b0000", bg: "#fff4f4" },
-  "Forest & Sky": { fg: "#064e3b", bg: "#f0f9ff" },
+const PREVIEW_WIDTH = 900; // the on-screen working image is capped for speed
+const LIVE_HISTOGRAM_MS = 500; // the camera's levels histogram refreshes at most this often
+
+type BatchItem = {
+  id: number;
+  file: File;
+  thumbURL: string;
+  status: "queued" | "processing" | "done" | "error";
 };
 
-// ---------- Utility: Bayer matrices ----------
-const BAYER_2 = [
-  [0, 2],
-  [3, 1],
-];
-const BAYER_4 = [
-  [0, 8, 2, 10],
-  [12, 4, 14, 6],
-  [3, 11, 1, 9],
-  [15, 7, 13, 5],
-];
-const BAYER_8 = (() => {
-  // Generate 8x8 from 4x4 recursively (simple expansion)
-  // A known 8x8 Bayer matrix (0..63)
-  return [
-    [0, 48, 12, 60, 3, 51, 15, 63],
-    [32, 16, 44, 28, 35, 19, 47, 31],
-    [8, 56, 4, 52, 11, 59, 7, 55],
-    [40, 24, 36, 20, 43, 27, 39, 23],
-    [2, 50, 14, 62, 1, 49, 13, 61],
-    [34, 18, 46, 30, 33, 17, 45, 29],
-    [10, 58, 6, 54, 9, 57, 5, 53],
-    [42, 26, 38, 22, 41, 25, 37, 21],
-  ];
-})();
-
-// ---------- Types ----------
-const ALGORITHMS = [
-  "Threshold",
-  "Floyd–Steinberg",
-  "Atkinson",
-  "Ordered Bayer 2x2",
-  "Ordered Bayer 4x4",
-  "Ordered Bayer 8x8",
-  "Random",
-] as const;
-
-type Algorithm = typeof ALGORITHMS[number];
-
-const DITHER_SIZES = [1, 2, 4, 8, 16, 32];
+type CompareResult = CompareCell & SheetCell & { pixelSize: number };
 
 // ---------- Component ----------
 export default function MonochromeDitheringEditor() {
   const [imageURL, setImageURL] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string>("");
-  const [algorithm, setAlgorithm] = useState<Algorithm>("Floyd–Steinberg");
-  const [paletteKey, setPaletteKey] = useState<string>("Black & White");
-  const [ditherSize, setDitherSize] = useState<number>(4);
+  // everything that defines the look lives in one versioned object (see lib/settings),
+  // kept in an undo history; edits to the same field in quick succession coalesce
+  const history = useHistory<EditorSettings>(() => decodeSettingsHash(window.location.hash) ?? DEFAULT_SETTINGS);
+  const settings = history.value;
+  const update = (patch: Partial<EditorSettings>) =>
+    history.set((s) => ({ ...s, ...patch }), describeChange(patch), Object.keys(patch).join(","));
+  const replaceSettings = (next: EditorSettings, label: string) => history.set(() => next, label);
+  const {
+    algorithm,
+    paletteKey,
+    colorMode,
+    colorMetric,
+    lumaModel,
+    linearLight,
+    ditherSize,
+    resample: resampleMethod,
+    brightness,
+    contrast,
+    gamma,
+    invert,
+    levelsBlack,
+    levelsWhite,
+    levelsMid,
+    toneCurve: curvePoints,
+    filters,
+    threshold,
+    blueNoiseSize,
+    halftoneShape,
+    halftoneCell,
+    halftoneAngle,
+    seed,
+    noiseAmplitude,
+    serpentine,
+    errorStrength,
+    customKernelText,
+  } = settings;
+  const customKernel = useMemo(() => parseKernel(customKernelText), [customKernelText]);
+
+  // presets: built-ins plus user presets persisted in localStorage
+  const [userPresets, setUserPresets] = useState<Preset[]>(() => loadUserPresets());
+  const [selectedPreset, setSelectedPreset] = useState<string>(""); // "builtin:<name>" | "user:<name>"
+  const [presetName, setPresetName] = useState<string>("");
+  const [presetError, setPresetError] = useState<string>("");
+
+  // custom palettes persisted in localStorage; settings refer to them by name
+  const [userPalettes, setUserPalettes] = useState<CustomPalette[]>(() => loadUserPalettes());
+  const [paletteFormat, setPaletteFormat] = useState<PaletteFormat>("GIMP (.gpl)");
+  const [paletteError, setPaletteError] = useState<string>("");
+  const palette = useMemo(
+    () => findPalette(paletteKey, userPalettes) ?? PALETTES[DEFAULT_SETTINGS.paletteKey],
+    [paletteKey, userPalettes]
+  );
+  const customPalette = userPalettes.some((p) => p.name === paletteKey);
+
+  // keep the URL hash in sync so a copied link reproduces the look
+  useEffect(() => {
+    const id = window.setTimeout(() => {
+      const hash = encodeSettingsHash(settings);
+      window.history.replaceState(null, "", hash ? `#${hash}` : window.location.pathname + window.location.search);
+    }, 250);
+    return () => window.clearTimeout(id);
+  }, [settings]);
+
+  useEffect(() => {
+    const onHashChange = () => {
+      const fromHash = decodeSettingsHash(window.location.hash);
+      if (fromHash) history.set(() => fromHash, "Opened link");
+    };
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, [history.set]);
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo; text fields keep their native undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const t = e.target as HTMLElement | null;
+      if (t && (t.tagName === "TEXTAREA" || (t.tagName === "INPUT" && (t as HTMLInputElement).type !== "range" && (t as HTMLInputElement).type !== "checkbox"))) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) history.undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") history.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [history.undo, history.redo]);
+
+  // export controls: the preview is capped at 900px, exports can re-run at full size
+  const [exportSize, setExportSize] = useState<"preview" | "original" | "custom">("original");
+  const [exportWidth, setExportWidth] = useState<number>(2000); // custom working width, height follows aspect
+  const [dpi, setDpi] = useState<number>(300);
+  const [outputScale, setOutputScale] = useState<"match" | number>("match"); // "match" upscales by the pixel size
+  const [exporting, setExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string>(""); // the last export failed
+  const [svgGeometry, setSvgGeometry] = useState<SvgGeometry>("runs");
+  const [svgFile, setSvgFile] = useState<{ blob: Blob; key: string } | null>(null);
+  const [bitmapFormat, setBitmapFormat] = useState<BitmapFormat>("C header");
+  const [packOrder, setPackOrder] = useState<PackOrder>("page");
+  const [msbFirst, setMsbFirst] = useState<boolean>(false);
+  const [invertBits, setInvertBits] = useState<boolean>(false);
+  const [naturalSize, setNaturalSize] = useState<{ w: number; h: number } | null>(null);
+  const [gifExportFrame, setGifExportFrame] = useState<number | null>(null);
+
+  // batch queue: every image is dithered with one look and zipped together
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const [batchPreset, setBatchPreset] = useState<string>(""); // "" = current settings, else like selectedPreset
+  const [batchIndex, setBatchIndex] = useState<number | null>(null);
+  const [batchError, setBatchError] = useState<string>(""); // skipped images or a failed ZIP
+  const batchIdRef = useRef(0);
 
-  // tonal controls
-  const [brightness, setBrightness] = useState<number>(0); // range -100..100
-  const [contrast, setContrast] = useState<number>(0); // -100..100
-  const [gamma, setGamma] = useState<number>(1); // 0.2 .. 3
-  const [invert, setInvert] = useState<boolean>(false);
-  const [threshold, setThreshold] = useState<number>(128); // 0..255 (for Threshold algo)
+  // animated GIFs: the <img> only decodes the first frame, so frames are decoded separately
+  const [gif, setGif] = useState<DecodedGif | null>(null);
+  const [gifFrame, setGifFrame] = useState<number>(0);
+  const [stablePatterns, setStablePatterns] = useState<boolean>(true);
+  const readTokenRef = useRef(0); // drops GIF decodes that finish after another file was chosen
+
+  // live camera source: frames are dithered at a reduced width to keep up with the video
+  const [camera, setCamera] = useState<MediaStream | null>(null);
+  const [cameraError, setCameraError] = useState<string>("");
+  const [liveWidth, setLiveWidth] = useState<number>(320);
+  const [liveFps, setLiveFps] = useState<number>(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const liveDrawRef = useRef<typeof drawOriginal | null>(null); // the latest render's drawOriginal, so the loop sees current settings
+  const histogramAtRef = useRef(0); // when the input histogram was last rebuilt
 
   const imgRef = useRef<HTMLImageElement>(null);
   const originalCanvasRef = useRef<HTMLCanvasElement>(null);
   const ditherCanvasRef = useRef<HTMLCanvasElement>(null);
 
+  // background processing
+  const runnerRef = useRef<DitherRunner | null>(null);
+  const exportRunnerRef = useRef<DitherRunner | null>(null);
+  const compareRunnerRef = useRef<DitherRunner | null>(null);
+  const previewMaskRef = useRef<{ mask: Uint8Array; w: number; h: number; gpu: boolean; key: string } | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [processError, setProcessError] = useState<string>(""); // the last preview failed
+  const [useGpu, setUseGpu] = useState<boolean>(true); // preview only; exports always dither on the CPU
+  const [gpuActive, setGpuActive] = useState<boolean>(false); // the last preview ran on the GPU
+
+  // preview viewer: both panes share one zoom/pan; split overlays them with a divider
+  const [previewSize, setPreviewSize] = useState<{ w: number; h: number } | null>(null); // original canvas size
+  const view = useZoomPan(previewSize);
+  const [splitView, setSplitView] = useState<boolean>(false);
+  const [split, setSplit] = useState<number>(0.5); // divider position, 0..1 of the pane width
+  const [showLoupe, setShowLoupe] = useState<boolean>(true);
+  const [loupe, setLoupe] = useState<LoupeSample | null>(null);
+
+  // compare view: the image through every algorithm / palette / parameter step
+  const [compareOpen, setCompareOpen] = useState<boolean>(false);
+  const [compareAxis, setCompareAxis] = useState<CompareAxis>("Algorithm");
+  const [compareSteps, setCompareSteps] = useState<number>(6); // cells in a parameter sweep
+  const [compareWidth, setCompareWidth] = useState<number>(240); // thumbnail width in preview pixels
+  const [compareResults, setCompareResults] = useState<CompareResult[]>([]);
+  const [comparing, setComparing] = useState<boolean>(false);
+  const [compareError, setCompareError] = useState<string>("");
+  const previewAreaRef = useRef<HTMLDivElement>(null);
+
+  // Region masks: each region's coverage is painted on its own canvas at
+  // the original canvas size and resampled to whatever grid a job runs at.
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [activeRegion, setActiveRegion] = useState<number | null>(null);
+  const [regionTool, setRegionTool] = useState<"pan" | "brush" | "erase" | "lasso">("brush");
+  const [brushSize, setBrushSize] = useState<number>(24); // original canvas pixels
+  const [showRegions, setShowRegions] = useState<boolean>(true);
+  const [maskVersion, setMaskVersion] = useState<number>(0); // bumped after every finished stroke
+  const regionMasksRef = useRef(new Map<number, HTMLCanvasElement>());
+  const regionIdRef = useRef(0);
+  const strokeRef = useRef<{ id: number; points: [number, number][] } | null>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [inputHistogram, setInputHistogram] = useState<Uint32Array | null>(null); // unadjusted luma of the working image
+  const [progress, setProgress] = useState<number>(0);
+
+  useEffect(() => {
+    const runner = createDitherRunner();
+    const exportRunner = createDitherRunner();
+    const compareRunner = createDitherRunner();
+    runnerRef.current = runner;
+    exportRunnerRef.current = exportRunner;
+    compareRunnerRef.current = compareRunner;
+    return () => {
+      runner.dispose();
+      exportRunner.dispose();
+      compareRunner.dispose();
+      runnerRef.current = null;
+      exportRunnerRef.current = null;
+      compareRunnerRef.current = null;
+    };
+  }, []);
+
+  // ---------- Presets ----------
+  function storeUserPresets(next: Preset[]) {
+    setUserPresets(next);
+    saveUserPresets(next);
+  }
+
+  // "builtin:<name>" | "user:<name>"
+  function findPreset(value: string): Preset | undefined {
+    const [kind, ...rest] = value.split(":");
+    const name = rest.join(":");
+    return (kind === "user" ? userPresets : BUILT_IN_PRESETS).find((p) => p.name === name);
+  }
+
+  function applyPreset(value: string) {
+    setSelectedPreset(value);
+    setPresetError("");
+    const preset = findPreset(value);
+    if (!preset) return;
+    replaceSettings(preset.settings, `Preset ${preset.name}`);
+    setPresetName(value.startsWith("user:") ? preset.name : "");
+  }
+
+  function savePreset() {
+    const name = presetName.trim();
+    if (!name) return;
+    storeUserPresets([...userPresets.filter((p) => p.name !== name), { name, settings }]);
+    setSelectedPreset(`user:${name}`);
+  }
+
+  function renamePreset() {
+    const name = presetName.trim();
+    const current = selectedPreset.startsWith("user:") ? selectedPreset.slice(5) : null;
+    if (!name || !current || name === current) return;
+    storeUserPresets(
+      userPresets.filter((p) => p.name !== name).map((p) => (p.name === current ? { ...p, name } : p))
+    );
+    setSelectedPreset(`user:${name}`);
+  }
+
+  function deletePreset() {
+    if (!selectedPreset.startsWith("user:")) return;
+    const current = selectedPreset.slice(5);
+    storeUserPresets(userPresets.filter((p) => p.name !== current));
+    setSelectedPreset("");
+    setPresetName("");
+  }
+
+  async function importPresets(file: File) {
+    setPresetError("");
+    try {
+      const imported = parsePresetFile(JSON.parse(await file.text()));
+      const names = new Set(imported.map((p) => p.name));
+      storeUserPresets([...userPresets.filter((p) => !names.has(p.name)), ...imported]);
+      replaceSettings(imported[0].settings, `Imported ${imported[0].name}`);
+      setSelectedPreset(`user:${imported[0].name}`);
+      setPresetName(imported[0].name);
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : "Could not read preset file");
+    }
+  }
+
+  function exportPresetJSON() {
+    const name = presetName.trim() || "settings";
+    const json = JSON.stringify(presetFile([{ name, settings }]), null, 2);
+    downloadBlob(new Blob([json], { type: "application/json" }), `${name.replace(/[^\w.-]+/g, "_")}.json`);
+  }
+
+  function copyShareLink() {
+    const hash = encodeSettingsHash(settings);
+    const url = window.location.origin + window.location.pathname + window.location.search + (hash ? `#${hash}` : "");
+    setPresetError("");
+    if (!navigator.clipboard) return setPresetError("Clipboard is not available; copy the address bar instead");
+    navigator.clipboard.writeText(url).catch((err) => setPresetError(err instanceof Error ? `Could not copy link: ${err.message}` : "Could not copy link"));
+  }
+
+  // ---------- Custom palettes ----------
+  function storeUserPalettes(next: CustomPalette[]) {
+    setUserPalettes(next);
+    saveUserPalettes(next);
+  }
+
+  // starts a new custom palette from whatever is selected
+  function newPalette() {
+    const name = uniquePaletteName("Custom", userPalettes);
+    storeUserPalettes([...userPalettes, { name, colors: [...palette] }]);
+    update({ paletteKey: name });
+  }
+
+  function setPaletteColors(colors: string[]) {
+    storeUserPalettes(userPalettes.map((p) => (p.name === paletteKey ? { ...p, colors } : p)));
+  }
+
+  function renamePalette(next: string) {
+    const name = uniquePaletteName(next, userPalettes, paletteKey);
+    if (name === paletteKey) return;
+    storeUserPalettes(userPalettes.map((p) => (p.name === paletteKey ? { ...p, name } : p)));
+    update({ paletteKey: name });
+  }
+
+  function deletePalette() {
+    storeUserPalettes(userPalettes.filter((p) => p.name !== paletteKey));
+    update({ paletteKey: DEFAULT_SETTINGS.paletteKey });
+  }
+
+  async function importPalette(file: File) {
+    setPaletteError("");
+    try {
+      const imported = parsePaletteFile(file.name, await file.arrayBuffer());
+      const name = uniquePaletteName(imported.name, userPalettes);
+      storeUserPalettes([...userPalettes, { name, colors: imported.colors }]);
+      update({ paletteKey: name });
+    } catch (err) {
+      setPaletteError(err instanceof Error ? err.message : "Could not read palette file");
+    }
+  }
+
+  function exportPalette() {
+    const { data, ext, type } = encodePalette(paletteFormat, { name: paletteKey, colors: palette });
+    downloadBlob(new Blob([data as BlobPart], { type }), `${paletteKey.replace(/[^\w.-]+/g, "_")}.${ext}`);
+  }
+
+  // ---------- Filters ----------
+  const setFilters = (next: FilterStep[]) => update({ filters: next });
+
+  function moveFilter(i: number, by: number) {
+    const j = i + by;
+    if (j < 0 || j >= filters.length) return;
+    const next = [...filters];
+    [next[i], next[j]] = [next[j], next[i]];
+    setFilters(next);
+  }
+
   // drag & drop handlers
   function onDrop(e: React.DragEvent) {
     e.preventDefault();
-    const f = e.dataTransfer.files?.[0];
-    if (f) readFile(f);
+    addFiles(Array.from(e.dataTransfer.files ?? []));
   }
   function onDragOver(e: React.DragEvent) {
     e.preventDefault();
   }
 
+  // A single image opens in the editor; several (or any added to a
+  // non-empty queue) go to the batch queue, with the first one opened.
+  function addFiles(files: File[]) {
+    const images = files.filter((f) => f.type.startsWith("image/"));
+    if (!images.length) return;
+    if (images.length === 1 && !batch.length) {
+      readFile(images[0]);
+      return;
+    }
+    if (!imageURL) readFile(images[0]);
+    setBatch((b) => [
+      ...b,
+      ...images.map((file) => ({ id: ++batchIdRef.current, file, thumbURL: URL.createObjectURL(file), status: "queued" as const })),
+    ]);
+  }
+
   function readFile(file: File) {
+    setCamera(null);
     const url = URL.createObjectURL(file);
+    const token = ++readTokenRef.current;
+    setGif(null);
+    setGifFrame(0);
+    if (file.type === "image/gif") {
+      file
+        .arrayBuffer()
+        .then((buf) => {
+          const decoded = decodeGif(buf);
+          if (token === readTokenRef.current && decoded.frames.length > 1) setGif(decoded);
+        })
+        .catch(() => {
+          // unreadable by the decoder: keep the <img> first frame
+        });
+    }
     setImageURL(url);
     setFileName(file.name);
   }
 
+  // draws a source (the <img>, a GIF frame or the camera) to the original canvas, then re-dithers
+  function drawOriginal(src: CanvasImageSource, srcW: number, srcH: number, maxW = PREVIEW_WIDTH): Promise<void> {
+    const oc = originalCanvasRef.current;
+    if (!oc) return Promise.resolve();
+    // maxW constrains working size for perf
+    const scale = srcW > maxW ? maxW / srcW : 1;
+    const w = Math.max(1, Math.round(srcW * scale));
+    const h = Math.max(1, Math.round(srcH * scale));
+    oc.width = w;
+    oc.height = h;
+    setPreviewSize((prev) => (prev && prev.w === w && prev.h === h ? prev : { w, h }));
+    const ctx = oc.getContext("2d");
+    if (!ctx) return Promise.resolve();
+    ctx.clearRect(0, 0, w, h);
+    ctx.drawImage(src, 0, 0, w, h);
+    // After drawing original, process for dither preview
+    return processImage();
+  }
+
   // image load draws to the original canvas
   useEffect(() => {
     const img = imgRef.current;
-    const oc = originalCanvasRef.current;
-    if (!img || !oc || !imageURL) return;
+    if (!img || !imageURL) return;
 
     const handleLoad = () => {
-      const maxW = 900; // constrain working size for perf
-      const scale = img.naturalWidth > maxW ? maxW / img.naturalWidth : 1;
-      const w = Math.max(1, Math.round(img.naturalWidth * scale));
-      const h = Math.max(1, Math.round(img.naturalHeight * scale));
-      oc.width = w;
-      oc.height = h;
-      const ctx = oc.getContext("2d");
-      if (!ctx) return;
-      ctx.clearRect(0, 0, w, h);
-      ctx.drawImage(img, 0, 0, w, h);
-      // After drawing original, process for dither preview
-      processImage();
+      setNaturalSize({ w: img.naturalWidth, h: img.naturalHeight });
+      drawOriginal(img, img.naturalWidth, img.naturalHeight);
     };
 
     img.addEventListener("load", handleLoad);
     return () => img.removeEventListener("load", handleLoad);
   }, [imageURL]);
 
+  // the frame scrubber swaps the source frame
+  useEffect(() => {
+    if (!gif) return;
+    drawOriginal(frameCanvas(gifFrame), gif.width, gif.height);
+  }, [gif, gifFrame]);
+
+  // ---------- Camera ----------
+  async function startCamera() {
+    setCameraError("");
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { width: { ideal: 1280 }, height: { ideal: 720 } }, audio: false });
+      clearImage();
+      setCamera(stream);
+    } catch (err) {
+      setCameraError(err instanceof Error ? err.message : "Camera is not available");
+    }
+  }
+
+  // stop the previous stream's tracks whenever the stream changes or the editor unmounts
+  useEffect(() => {
+    if (!camera) return;
+    return () => camera.getTracks().forEach((t) => t.stop());
+  }, [camera]);
+
+  // Live loop: draw the current video frame, dither it, repeat. Each frame
+  // waits for the previous one so the worker is never interrupted. Frames go
+  // through the latest drawOriginal, so settings changes apply to the next
+  // frame without restarting the loop.
+  liveDrawRef.current = drawOriginal;
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!camera || !video) return;
+    if (video.srcObject !== camera) {
+      video.srcObject = camera;
+      video.play().catch(() => {});
+    }
+    let stopped = false;
+    let raf = 0;
+    let frames = 0;
+    let since = performance.now();
+    const tick = async () => {
+      if (video.readyState >= 2 && video.videoWidth) {
+        await liveDrawRef.current?.(video, video.videoWidth, video.videoHeight, liveWidth);
+        frames++;
+        const now = performance.now();
+        if (now - since >= 1000) {
+          setLiveFps(Math.round((frames * 1000) / (now - since)));
+          frames = 0;
+          since = now;
+        }
+      }
+      if (!stopped) raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(raf);
+    };
+  }, [camera, liveWidth]);
+
+  // captures the current video frame at full resolution and loads it like an uploaded file
+  function takeSnapshot() {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const c = document.createElement("canvas");
+    c.width = video.videoWidth;
+    c.height = video.videoHeight;
+    c.getContext("2d")?.drawImage(video, 0, 0);
+    c.toBlob((blob) => {
+      if (!blob) return;
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, "-");
+      readFile(new File([blob], `snapshot-${stamp}.png`, { type: "image/png" }));
+    }, "image/png");
+  }
+
   // recompute when settings change
   useEffect(() => {
     if (!imageURL) return;
     const id = window.setTimeout(() => processImage(), 60);
     return () => window.clearTimeout(id);
-  }, [algorithm, paletteKey, ditherSize, brightness, contrast, gamma, invert, threshold]);
+  }, [settings, customKernel, stablePatterns, palette, useGpu, regions, maskVersion]);
 
   // ---------- Core processing ----------
-  function applyTonalAdjustments(v: number): number {
-    // v in [0,255]
-    let x = v / 255; // [0,1]
-    // brightness: simple add in linear domain
-    x = x + brightness / 100;
-    // contrast: scale around 0.5
-    if (contrast !== 0) {
-      const c = (100 + contrast) / 100; // 0..2
-      x = (x - 0.5) * c + 0.5;
-    }
-    // gamma: pow mapping
-    if (gamma > 0 && gamma !== 1) {
-      x = Math.pow(Math.max(0, Math.min(1, x)), 1 / gamma);
-    } else {
-      x = Math.max(0, Math.min(1, x));
-    }
-    if (invert) x = 1 - x;
-    return Math.round(x * 255);
+  const ditherSettings = { ...settings, customKernel };
+  // identifies the inputs a preview mask was dithered from, so exports only reuse a current one
+  const previewKey = JSON.stringify([settings, palette, regions, maskVersion, imageURL, gif && gifFrame, stablePatterns]);
+
+  // With stable patterns every frame shares one threshold map and seed, so
+  // static areas don't flicker; otherwise ordered maps shift and noise is
+  // reseeded per frame.
+  function frameSettings(i: number) {
+    return gif && !stablePatterns ? { ...ditherSettings, frame: i } : ditherSettings;
   }
 
-  function toLuma(r: number, g: number, b: number): number {
-    // Rec. 709 luma
-    return Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+  function frameCanvas(i: number): HTMLCanvasElement {
+    if (!gif) throw new Error("No animation loaded");
+    return rgbaToCanvas(gif.frames[i].rgba, gif.width, gif.height);
   }
 
-  function processImage() {
+  async function processImage() {
     const oc = originalCanvasRef.current;
     const dc = ditherCanvasRef.current;
-    if (!oc || !dc) return;
+    const runner = runnerRef.current;
+    if (!oc || !dc || !runner) return;
     const w = oc.width;
     const h = oc.height;
     if (!w || !h) return;
 
     const octx = oc.getContext("2d");
-    const dctx = dc.getContext("2d");
-    if (!octx || !dctx) return;
+    if (!octx) return;
 
     const src = octx.getImageData(0, 0, w, h);
-    const gray = new Uint8ClampedArray(w * h); // grayscale after tonal controls
+    // before the pixels are handed to the worker; live frames only now and then
+    const now = performance.now();
+    if (!camera || now - histogramAtRef.current >= LIVE_HISTOGRAM_MS) {
+      histogramAtRef.current = now;
+      setInputHistogram(histogram(toGray(src.data, { ...DEFAULT_SETTINGS, lumaModel })));
+    }
 
-    // 1) grayscale + adjustments
-    for (let i = 0, p = 0; i < src.data.length; i += 4, p++) {
-      const l = toLuma(src.data[i], src.data[i + 1], src.data[i + 2]);
-      gray[p] = applyTonalAdjustments(l);
+    // 1) resample to the working grid, 2) grayscale + adjustments, 3) dither -> palette
+    // indices run in the worker; a newer call cancels this one and we just bail out.
+    const grid = workingSize(w, h, ditherSize);
+    setBusy(true);
+    setProgress(0);
+    setProcessError("");
+    let result;
+    try {
+      result = await runner.run(
+        {
+          pixels: src.data,
+          width: grid.w,
+          height: grid.h,
+          source: ditherSize > 1 ? { width: w, height: h, method: resampleMethod } : undefined,
+          settings: frameSettings(gifFrame),
+          palette,
+          pixelSize: ditherSize,
+          gpu: useGpu,
+          regions: regionJobs(frameSettings(gifFrame), grid.w, grid.h),
+        },
+        setProgress
+      );
+    } catch (err) {
+      if (isAbortError(err)) return;
+      // processImage runs from timers and load handlers: report here, nothing above catches
+      setProcessError(err instanceof Error ? err.message : "Could not dither the image");
+      setBusy(false);
+      return;
     }
 
-    // 2) dither -> binary mask (0/1)
-    const mask = new Uint8ClampedArray(w * h);
+    previewMaskRef.current = { mask: result.mask, ...grid, gpu: !!result.gpu, key: previewKey };
+    setGpuActive(!!result.gpu);
 
-    switch (algorithm) {
-      case "Threshold": {
-        const T = Math.max(0, Math.min(255, threshold));
-        for (let p = 0; p < gray.length; p++) mask[p] = gray[p] >= T ? 1 : 0;
-        break;
-      }
-      case "Random": {
-        for (let p = 0; p < gray.length; p++) {
-          const rnd = Math.random() * 255;
-          mask[p] = gray[p] >= rnd ? 1 : 0;
-        }
-        break;
-      }
-      case "Ordered Bayer 2x2":
-      case "Ordered Bayer 4x4":
-      case "Ordered Bayer 8x8": {
-        const m = algorithm.includes("2x2") ? BAYER_2 : algorithm.includes("4x4") ? BAYER_4 : BAYER_8;
-        const n = m.length;
-        const scale = n * n; // max index + 1
-        for (let y = 0; y < h; y++) {
-          for (let x = 0; x < w; x++) {
-            const idx = y * w + x;
-            const t = ((m[y % n][x % n] + 0.5) * 255) / scale; // 0..255
-            mask[idx] = gray[idx] > t ? 1 : 0;
-          }
-        }
-        break;
+    // 4) paint to dither canvas with palette, each working pixel back at pixel size (ditherSize)
+    const dctx = dc.getContext("2d");
+    if (dctx) {
+      dc.width = grid.w * ditherSize;
+      dc.height = grid.h * ditherSize;
+      dctx.imageSmoothingEnabled = false;
+      if (result.bitmap) {
+        dctx.drawImage(result.bitmap, 0, 0);
+      } else {
+        paintIndices(dctx, result.mask, grid.w, grid.h, palette, ditherSize);
       }
-      case "Floyd–Steinberg": {
-        const buf = new Float32Array(gray.length);
-        for (let i = 0; i < gray.length; i++) buf[i] = gray[i];
-        for (let y = 0; y < h; y++) {
-          for (let x = 0; x < w; x++) {
-            const i = y * w + x;
-            const old = buf[i];
-            const newVal = old < 128 ? 0 : 255;
-            mask[i] = newVal === 255 ? 1 : 0;
-            const err = old - newVal;
-            if (x + 1 < w) buf[i + 1] += (err * 7) / 16;
-            if (y + 1 < h) {
-              if (x > 0) buf[i + w - 1] += (err * 3) / 16;
-              buf[i + w] += (err * 5) / 16;
-              if (x + 1 < w) buf[i + w + 1] += (err * 1) / 16;
-            }
-          }
-        }
-        break;
+    }
+    result.bitmap?.close();
+    setBusy(false);
+  }
+
+  // ---------- Viewer ----------
+  // original-canvas pixel under the pointer on a preview pane
+  function imagePoint(e: React.MouseEvent): [number, number] {
+    const pane = e.currentTarget.getBoundingClientRect();
+    return [(e.clientX - pane.left - view.x) / view.scale, (e.clientY - pane.top - view.y) / view.scale];
+  }
+
+  // Samples the working pixel under the pointer: the source gray (mean luma of
+  // the cell on the original canvas) and the palette index it dithered to.
+  function sampleLoupe(e: React.MouseEvent) {
+    const area = previewAreaRef.current;
+    const oc = originalCanvasRef.current;
+    const preview = previewMaskRef.current;
+    if (!showLoupe || !area || !oc || !preview || !previewSize || view.isDragging() || strokeRef.current) return setLoupe(null);
+    const [ix, iy] = imagePoint(e);
+    if (ix < 0 || iy < 0 || ix >= previewSize.w || iy >= previewSize.h) return setLoupe(null);
+    const gx = Math.floor((ix * preview.w) / previewSize.w);
+    const gy = Math.floor((iy * preview.h) / previewSize.h);
+    const x0 = Math.floor((gx * oc.width) / preview.w);
+    const y0 = Math.floor((gy * oc.height) / preview.h);
+    const x1 = Math.max(x0 + 1, Math.floor(((gx + 1) * oc.width) / preview.w));
+    const y1 = Math.max(y0 + 1, Math.floor(((gy + 1) * oc.height) / preview.h));
+    const cell = oc.getContext("2d")?.getImageData(x0, y0, x1 - x0, y1 - y0).data;
+    if (!cell) return;
+    let r = 0, g = 0, b = 0;
+    for (let i = 0; i < cell.length; i += 4) {
+      r += cell[i];
+      g += cell[i + 1];
+      b += cell[i + 2];
+    }
+    const n = cell.length / 4;
+    const bounds = area.getBoundingClientRect();
+    setLoupe({
+      x: e.clientX - bounds.left,
+      y: e.clientY - bounds.top,
+      gx,
+      gy,
+      gray: grayValue(Math.round(r / n), Math.round(g / n), Math.round(b / n), lumaModel, linearLight),
+      index: preview.mask[gy * preview.w + gx],
+    });
+  }
+
+  function dragSplit(e: React.PointerEvent) {
+    const area = previewAreaRef.current;
+    if (!area || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const rect = area.getBoundingClientRect();
+    setSplit(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)));
+  }
+
+  const zoomLabel = `${Math.round(view.scale * 100)}%`;
+  const zoomIn = () => view.zoomTo(ZOOM_STEPS.find((z) => z > view.scale * 1.001) ?? ZOOM_STEPS[ZOOM_STEPS.length - 1]);
+  const zoomOut = () => view.zoomTo([...ZOOM_STEPS].reverse().find((z) => z < view.scale / 1.001) ?? ZOOM_STEPS[0]);
+  // both canvases are laid over the same image rectangle, nearest-neighbour scaled
+  const canvasStyle: React.CSSProperties = previewSize
+    ? {
+        width: previewSize.w * view.scale,
+        height: previewSize.h * view.scale,
+        transform: `translate(${view.x}px, ${view.y}px)`,
+        imageRendering: "pixelated",
       }
-      case "Atkinson": {
-        const buf = new Float32Array(gray.length);
-        for (let i = 0; i < gray.length; i++) buf[i] = gray[i];
-        for (let y = 0; y < h; y++) {
-          for (let x = 0; x < w; x++) {
-            const i = y * w + x;
-            const old = buf[i];
-            const newVal = old < 128 ? 0 : 255;
-            mask[i] = newVal === 255 ? 1 : 0;
-            const err = (old - newVal) / 8; // Atkinson spreads 1/8 to 6 neighbors (some versions 1/8 to up to 8)
-            // neighbors
-            if (x + 1 < w) buf[i + 1] += err;
-            if (x + 2 < w) buf[i + 2] += err;
-            if (y + 1 < h) {
-              if (x > 0) buf[i + w - 1] += err;
-              buf[i + w] += err;
-              if (x + 1 < w) buf[i + w + 1] += err;
-            }
-            if (y + 2 < h) buf[i + 2 * w] += err;
-          }
-        }
-        break;
+    : {};
+  const paneProps = {
+    ref: view.bind,
+    ...view.dragHandlers,
+    onMouseMove: sampleLoupe,
+    onMouseLeave: () => setLoupe(null),
+  };
+
+  // ---------- Regions ----------
+  // mask canvas for region `id`, kept at the original canvas size (rescaled when that changes)
+  function regionMask(id: number): HTMLCanvasElement | null {
+    const oc = originalCanvasRef.current;
+    if (!oc || !oc.width) return null;
+    let mask = regionMasksRef.current.get(id);
+    if (!mask || mask.width !== oc.width || mask.height !== oc.height) {
+      const next = document.createElement("canvas");
+      next.width = oc.width;
+      next.height = oc.height;
+      if (mask) next.getContext("2d")?.drawImage(mask, 0, 0, next.width, next.height);
+      regionMasksRef.current.set(id, next);
+      mask = next;
+    }
+    return mask;
+  }
+
+  function addRegion() {
+    const id = ++regionIdRef.current;
+    setRegions((r) => [...r, createRegion(id, `Region ${id}`, settings)]);
+    setActiveRegion(id);
+  }
+
+  function updateRegion(id: number, patch: Partial<Region>) {
+    setRegions((r) => r.map((region) => (region.id === id ? { ...region, ...patch } : region)));
+  }
+
+  function deleteRegion(id: number) {
+    regionMasksRef.current.delete(id);
+    setRegions((r) => r.filter((region) => region.id !== id));
+    if (activeRegion === id) setActiveRegion(null);
+  }
+
+  function clearRegionMask(id: number) {
+    const mask = regionMasksRef.current.get(id);
+    mask?.getContext("2d")?.clearRect(0, 0, mask.width, mask.height);
+    setMaskVersion((v) => v + 1);
+  }
+
+  // the enabled, painted regions resampled to a `w`×`h` working grid
+  function regionJobs(look: DitherJob["settings"], w: number, h: number): RegionJob[] {
+    const jobs: RegionJob[] = [];
+    for (const region of regions) {
+      const mask = regionMasksRef.current.get(region.id);
+      if (!region.enabled || !mask) continue;
+      const rgba = readPixels(mask, mask.width, mask.height, w, h);
+      const coverage = new Uint8Array(w * h);
+      let painted = false;
+      for (let p = 0; p < coverage.length; p++) if ((coverage[p] = rgba[p * 4 + 3])) painted = true;
+      if (!painted) continue;
+      const { algorithm, threshold, brightness, contrast, gamma, invert } = region;
+      jobs.push({
+        settings: { ...look, algorithm, threshold, brightness, contrast, gamma, invert },
+        coverage,
+        feather: (region.feather * w) / mask.width,
+      });
+    }
+    return jobs;
+  }
+
+  // extends the stroke in progress on its mask (brush and eraser; the lasso fills on release)
+  function paintStroke() {
+    const stroke = strokeRef.current;
+    const mask = stroke && regionMask(stroke.id);
+    const ctx = mask?.getContext("2d");
+    const region = regions.find((r) => r.id === stroke?.id);
+    if (!stroke || !ctx || !region || regionTool === "lasso") return;
+    const [x1, y1] = stroke.points[stroke.points.length - 1];
+    const [x0, y0] = stroke.points[stroke.points.length - 2] ?? [x1, y1];
+    ctx.globalCompositeOperation = regionTool === "erase" ? "destination-out" : "source-over";
+    ctx.fillStyle = ctx.strokeStyle = region.color;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = "round";
+    ctx.beginPath();
+    ctx.arc(x1, y1, brushSize / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.moveTo(x0, y0);
+    ctx.lineTo(x1, y1);
+    ctx.stroke();
+  }
+
+  function finishStroke() {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    strokeRef.current = null;
+    const region = regions.find((r) => r.id === stroke.id);
+    const ctx = regionMask(stroke.id)?.getContext("2d");
+    if (regionTool === "lasso" && ctx && region && stroke.points.length > 2) {
+      ctx.globalCompositeOperation = "source-over";
+      ctx.fillStyle = region.color;
+      ctx.beginPath();
+      stroke.points.forEach(([x, y], i) => (i ? ctx.lineTo(x, y) : ctx.moveTo(x, y)));
+      ctx.closePath();
+      ctx.fill();
+    }
+    drawRegionOverlay();
+    setMaskVersion((v) => v + 1);
+  }
+
+  // tinted masks over the original, plus the lasso outline while drawing
+  function drawRegionOverlay() {
+    const overlay = overlayCanvasRef.current;
+    const oc = originalCanvasRef.current;
+    if (!overlay || !oc) return;
+    overlay.width = oc.width;
+    overlay.height = oc.height;
+    const ctx = overlay.getContext("2d");
+    if (!ctx) return;
+    if (showRegions) {
+      ctx.globalAlpha = 0.4;
+      for (const region of regions) {
+        const mask = regionMasksRef.current.get(region.id);
+        if (mask && region.enabled) ctx.drawImage(mask, 0, 0, overlay.width, overlay.height);
       }
     }
+    const stroke = strokeRef.current;
+    if (stroke && regionTool === "lasso") {
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = "#ffffff";
+      ctx.lineWidth = 1.5 / view.scale;
+      ctx.beginPath();
+      stroke.points.forEach(([x, y], i) => (i ? ctx.lineTo(x, y) : ctx.moveTo(x, y)));
+      ctx.stroke();
+    }
+  }
 
-    // 3) paint to dither canvas with palette + pixel size (ditherSize)
-    const { fg, bg } = PALETTES[paletteKey];
-
-    const outW = w * ditherSize;
-    const outH = h * ditherSize;
-    dc.width = outW;
-    dc.height = outH;
-
-    // draw pixel blocks
-    dctx.imageSmoothingEnabled = false;
-    dctx.save();
-    dctx.fillStyle = bg;
-    dctx.fillRect(0, 0, outW, outH);
-    dctx.fillStyle = fg;
-
-    for (let y = 0; y < h; y++) {
-      for (let x = 0; x < w; x++) {
-        if (mask[y * w + x]) {
-          dctx.fillRect(x * ditherSize, y * ditherSize, ditherSize, ditherSize);
-        }
+  useEffect(drawRegionOverlay, [regions, showRegions, maskVersion, previewSize]);
+
+  const region = regions.find((r) => r.id === activeRegion) ?? null;
+  const painting = region !== null && regionTool !== "pan";
+  const paintHandlers = {
+    onPointerDown: (e: React.PointerEvent) => {
+      if (e.button !== 0 || !region) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      strokeRef.current = { id: region.id, points: [imagePoint(e)] };
+      paintStroke();
+      drawRegionOverlay();
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      if (!strokeRef.current) return;
+      strokeRef.current.points.push(imagePoint(e));
+      paintStroke();
+      drawRegionOverlay();
+    },
+    onPointerUp: finishStroke,
+    onPointerCancel: finishStroke,
+  };
+
+  // ---------- Compare ----------
+  const showCompare = compareOpen && !camera;
+  const compareList = compareCells(compareAxis, [...Object.keys(PALETTES), ...userPalettes.map((p) => p.name)], compareSteps);
+
+  // Dithers the preview image, scaled to the thumbnail width, once per cell
+  // with that cell's change on top of the current look. Cells appear as they
+  // finish; a newer run cancels this one.
+  async function runCompare() {
+    const oc = originalCanvasRef.current;
+    const runner = compareRunnerRef.current;
+    const octx = oc?.getContext("2d");
+    if (!oc || !oc.width || !oc.height || !runner || !octx) return;
+    const src = octx.getImageData(0, 0, oc.width, oc.height).data;
+    const w = Math.min(oc.width, compareWidth);
+    const grid = workingSize(w, Math.max(1, Math.round((w * oc.height) / oc.width)), ditherSize);
+    const results: CompareResult[] = [];
+    setComparing(true);
+    setCompareResults([]);
+    setCompareError("");
+    try {
+      for (const cell of compareList) {
+        const look = { ...ditherSettings, ...cell.patch };
+        const cellPalette = findPalette(look.paletteKey, userPalettes) ?? palette;
+        const { mask } = await runner.run({
+          pixels: src.slice(),
+          width: grid.w,
+          height: grid.h,
+          source: { width: oc.width, height: oc.height, method: resampleMethod },
+          settings: look,
+          palette: cellPalette,
+          pixelSize: ditherSize,
+          paint: false,
+          regions: regionJobs(look, grid.w, grid.h),
+        });
+        results.push({ ...cell, mask, ...grid, palette: cellPalette, pixelSize: ditherSize });
+        setCompareResults([...results]);
       }
+    } catch (err) {
+      if (isAbortError(err)) return;
+      // runs from a timer like processImage: report here, keep the finished cells
+      setCompareError(err instanceof Error ? err.message : "Could not render the comparison");
     }
+    setComparing(false);
+  }
+
+  // re-render the cells while the view is open and the look or image changes
+  useEffect(() => {
+    if (!compareOpen || !imageURL) return;
+    const id = window.setTimeout(() => runCompare(), 200);
+    return () => window.clearTimeout(id);
+  }, [compareOpen, compareAxis, compareSteps, compareWidth, settings, customKernel, userPalettes, regions, maskVersion, imageURL, previewSize, gifFrame]);
 
-    dctx.restore();
+  function downloadCompareSheet() {
+    if (!compareResults.length) return;
+    const title = `${fileName || "Image"} · ${compareAxis} · pixel size ${compareResults[0].pixelSize}`;
+    const name = `${(fileName || "dithered").replace(/\.[^.]+$/, "")}_compare-${compareAxis.replace(/\s+/g, "-")}.png`;
+    renderSheet(compareResults, compareResults[0].pixelSize, title).toBlob((blob) => blob && downloadBlob(blob, name), "image/png");
   }
 
   // ---------- Export ----------
-  function downloadPNG() {
-    const dc = ditherCanvasRef.current;
-    if (!dc) return;
-    const a = document.createElement("a");
-    a.href = dc.toDataURL("image/png");
-    a.download = (fileName ? fileName.replace(/\.[^.]+$/, "") : "dithered") + "_" + algorithm.replace(/\s+/g, "-") + ".png";
-    a.click();
+  // source resolution an export samples; the pixel size divides it into the working grid
+  function exportSourceSize(natural = naturalSize): { w: number; h: number } | null {
+    const oc = originalCanvasRef.current;
+    if (!natural) return oc && oc.width ? { w: oc.width, h: oc.height } : null;
+    if (exportSize === "original") return natural;
+    const w = exportSize === "preview" ? Math.min(natural.w, PREVIEW_WIDTH) : Math.max(1, exportWidth);
+    return { w, h: Math.max(1, Math.round((w * natural.h) / natural.w)) };
+  }
+
+  // working grid the export pipeline dithers at (before output scaling)
+  function exportDimensions(): { w: number; h: number } | null {
+    const size = exportSourceSize();
+    return size && workingSize(size.w, size.h, ditherSize);
+  }
+
+  const exportScale = outputScale === "match" ? ditherSize : outputScale;
+
+  // Dithers `src` at `size` onto the look's working grid. The pixels are read
+  // at the source's own size, which a canvas copies exactly, and the worker
+  // does all the scaling, just as the `dither` CLI does with decoded files.
+  async function ditherForExport(
+    src: CanvasImageSource,
+    srcW: number,
+    srcH: number,
+    size: { w: number; h: number },
+    look: EditorSettings & DitherJob["settings"],
+    lookPalette = palette,
+    withRegions = false // the current image's region masks (not for batch images)
+  ): Promise<{ mask: Uint8Array; w: number; h: number } | null> {
+    const runner = exportRunnerRef.current;
+    if (!runner) return null;
+    const job = exportJob(readPixels(src, srcW, srcH, srcW, srcH), srcW, srcH, size, look);
+    const { mask } = await runner.run({
+      ...job,
+      settings: look,
+      palette: lookPalette,
+      pixelSize: look.ditherSize,
+      paint: false,
+      regions: withRegions ? regionJobs(look, job.width, job.height) : undefined,
+    });
+    return { mask, w: job.width, h: job.height };
+  }
+
+  // Re-runs the pipeline at the export size and returns the palette-index mask.
+  // The preview is reused when it is the same dither: same inputs (not a mask
+  // left from before an edit still waiting on its debounce or worker), same
+  // grid, CPU path and a preview canvas holding the source at full resolution.
+  async function exportMask(): Promise<{ mask: Uint8Array; w: number; h: number } | null> {
+    const size = exportSourceSize();
+    const dims = exportDimensions();
+    const preview = previewMaskRef.current;
+    const img = imgRef.current;
+    if (!size || !dims) return null;
+    const fullPreview = !naturalSize || originalCanvasRef.current?.width === naturalSize.w;
+    if (preview && preview.key === previewKey && !preview.gpu && fullPreview && preview.w === dims.w && preview.h === dims.h) return preview;
+    if (!img) return null;
+    return gif
+      ? ditherForExport(frameCanvas(gifFrame), gif.width, gif.height, size, frameSettings(gifFrame), palette, true)
+      : ditherForExport(img, img.naturalWidth, img.naturalHeight, size, frameSettings(gifFrame), palette, true);
+  }
+
+  // identifies the inputs an export was built from, so stale builds are hidden
+  const exportKey = JSON.stringify([settings, palette, regions, maskVersion, exportSize, exportWidth, outputScale, dpi, svgGeometry, imageURL, gif && gifFrame, stablePatterns]);
+
+  // export handlers run from clicks, so nothing above them would catch a
+  // failure; it is shown under the export buttons instead. A superseded
+  // export (AbortError) was replaced by a newer one and stays quiet.
+  function exportFailed(err: unknown, what: string) {
+    if (isAbortError(err)) return;
+    setExportError(`${what} failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  async function buildSVG() {
+    const key = exportKey;
+    setExporting(true);
+    setExportError("");
+    try {
+      const out = await exportMask();
+      if (!out) return;
+      const svg = maskToSvg(out.mask, out.w, out.h, palette, { geometry: svgGeometry, unit: exportScale, dpi });
+      setSvgFile({ blob: new Blob([svg], { type: "image/svg+xml" }), key });
+    } catch (err) {
+      exportFailed(err, "SVG export");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  // 1-bit formats are written at working resolution; ditherSize upscaling is not applied
+  async function downloadBitmap() {
+    setExporting(true);
+    setExportError("");
+    try {
+      const out = await exportMask();
+      if (!out) return;
+      const name = exportBaseName(fileName, settings);
+      const bits = maskToBits(out.mask, palette, invertBits);
+      const { data, ext, type } = encodeBitmap(bitmapFormat, bits, out.w, out.h, name, palette, { order: packOrder, msbFirst }, invertBits);
+      downloadBlob(new Blob([data as BlobPart], { type }), `${name}.${ext}`);
+    } catch (err) {
+      exportFailed(err, `${bitmapFormat} export`);
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  async function downloadPNG() {
+    setExporting(true);
+    setExportError("");
+    try {
+      const out = await exportMask();
+      if (!out) return;
+      const blob = await encodeIndexedPng(out.mask, out.w, out.h, palette, { scale: exportScale, dpi });
+      downloadBlob(blob, exportBaseName(fileName, settings) + ".png");
+    } catch (err) {
+      exportFailed(err, "PNG export");
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  // every frame runs through the export pipeline in turn; source delays are kept
+  async function downloadGIF() {
+    const size = exportSourceSize();
+    const dims = exportDimensions();
+    if (!gif || !size || !dims) return;
+    setExporting(true);
+    setExportError("");
+    try {
+      const frames: GifOutFrame[] = [];
+      for (let i = 0; i < gif.frames.length; i++) {
+        setGifExportFrame(i);
+        const out = await ditherForExport(frameCanvas(i), gif.width, gif.height, size, frameSettings(i), palette, true);
+        if (!out) return;
+        frames.push({ indices: out.mask, delay: gif.frames[i].delay });
+      }
+      downloadBlob(encodeGif(frames, dims.w, dims.h, palette, exportScale), exportBaseName(fileName, settings) + ".gif");
+    } catch (err) {
+      exportFailed(err, "GIF export");
+    } finally {
+      setGifExportFrame(null);
+      setExporting(false);
+    }
+  }
+
+  // ---------- Batch ----------
+  function removeBatchItem(item: BatchItem) {
+    URL.revokeObjectURL(item.thumbURL);
+    setBatch((b) => b.filter((other) => other.id !== item.id));
+  }
+
+  function clearBatch() {
+    batch.forEach((item) => URL.revokeObjectURL(item.thumbURL));
+    setBatch([]);
+    setBatchError("");
+  }
+
+  // Runs every queued image through the export pipeline with the current
+  // settings or the chosen preset, and downloads one ZIP of indexed PNGs.
+  // Export size, output scale and DPI come from the EXPORT section.
+  async function downloadBatch() {
+    const look = batchPreset ? findPreset(batchPreset)?.settings : settings;
+    if (!look || !batch.length) return;
+    const lookPalette = findPalette(look.paletteKey, userPalettes) ?? PALETTES[DEFAULT_SETTINGS.paletteKey];
+    const lookSettings = { ...look, customKernel: parseKernel(look.customKernelText) };
+    const scale = outputScale === "match" ? look.ditherSize : outputScale;
+    const setStatus = (id: number, status: BatchItem["status"]) =>
+      setBatch((b) => b.map((item) => (item.id === id ? { ...item, status } : item)));
+    setExporting(true);
+    setBatchError("");
+    try {
+      const entries: ZipEntry[] = [];
+      for (let i = 0; i < batch.length; i++) {
+        const item = batch[i];
+        setBatchIndex(i);
+        setStatus(item.id, "processing");
+        let bitmap: ImageBitmap | null = null;
+        try {
+          bitmap = await createImageBitmap(item.file);
+          const size = exportSourceSize({ w: bitmap.width, h: bitmap.height });
+          const out = size && (await ditherForExport(bitmap, bitmap.width, bitmap.height, size, lookSettings, lookPalette));
+          if (!out) throw new Error("Image could not be dithered");
+          const png = await encodeIndexedPng(out.mask, out.w, out.h, lookPalette, { scale, dpi });
+          entries.push({ name: exportBaseName(item.file.name, look) + ".png", data: new Uint8Array(await png.arrayBuffer()) });
+          setStatus(item.id, "done");
+        } catch (err) {
+          if (isAbortError(err)) throw err;
+          setStatus(item.id, "error"); // undecodable or failed image: skip it, keep going, report it at the end
+        } finally {
+          bitmap?.close();
+        }
+      }
+      const skipped = batch.length - entries.length;
+      if (!entries.length) {
+        setBatchError("No image could be exported");
+        return;
+      }
+      const names = uniqueNames(entries.map((e) => e.name));
+      const zip = createZip(entries.map((e, i) => ({ ...e, name: names[i] })));
+      downloadBlob(zip, `batch_${look.algorithm.replace(/\s+/g, "-")}.zip`);
+      if (skipped) setBatchError(`${skipped} of ${batch.length} images could not be exported and were left out of the ZIP`);
+    } catch (err) {
+      // unlike single exports, a cancelled batch loses work the user waited for
+      setBatchError(isAbortError(err) ? "Batch export was cancelled; no ZIP was written" : `Batch export failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setBatchIndex(null);
+      setExporting(false);
+    }
   }
 
   function clearImage() {
+    runnerRef.current?.cancel();
+    exportRunnerRef.current?.cancel();
+    compareRunnerRef.current?.cancel();
+    previewMaskRef.current = null;
+    setNaturalSize(null);
+    setPreviewSize(null);
+    setLoupe(null);
+    setCompareResults([]);
+    setComparing(false);
+    setCompareError("");
+    readTokenRef.current++;
+    setGif(null);
+    setGifFrame(0);
+    setBusy(false);
+    setProcessError("");
+    setExportError("");
     setImageURL(null);
     setFileName("");
     const oc = originalCanvasRef.current;
@@ -303,8 +1166,6 @@ export default function MonochromeDitheringEditor() {
     }
   }
 
-  const palette = useMemo(() => PALETTES[paletteKey], [paletteKey]);
-
   return (
     <div className="min-h-screen w-full bg-zinc-950 text-zinc-100 flex flex-col md:flex-row">
       {/* Left Sidebar - Controls */}
@@ -325,19 +1186,71 @@ export default function MonochromeDitheringEditor() {
                 <input
                   type="file"
                   accept="image/*"
+                  multiple
                   className="hidden"
                   onChange={(e) => {
-                    const f = e.target.files?.[0];
-                    if (f) readFile(f);
+                    addFiles(Array.from(e.target.files ?? []));
+                    e.target.value = "";
                   }}
                 />
-                <span className="text-sm">Choose File</span>
+                <span className="text-sm">Choose Files</span>
               </label>
+              {camera ? (
+                <div className="space-y-3">
+                  <div className="flex gap-2">
+                    <button
+                      onClick={takeSnapshot}
+                      className="flex-1 px-4 py-2 rounded-lg bg-white text-zinc-900 hover:bg-gray-100 transition text-sm font-medium"
+                    >
+                      Snapshot
+                    </button>
+                    <button
+                      onClick={() => setCamera(null)}
+                      className="px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-sm border border-zinc-700"
+                    >
+                      Stop
+                    </button>
+                  </div>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-xs text-zinc-400">Live width</div>
+                    <select
+                      className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs outline-none focus:border-zinc-600"
+                      value={liveWidth}
+                      onChange={(e) => setLiveWidth(parseInt(e.target.value, 10))}
+                    >
+                      {[160, 240, 320, 480, 640].map((w) => (
+                        <option key={w} value={w}>{w}px</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={startCamera}
+                  className="flex items-center justify-center gap-2 w-full px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-sm border border-zinc-700"
+                >
+                  <Camera className="w-4 h-4" />
+                  Camera
+                </button>
+              )}
+              {cameraError && <div className="text-xs text-red-400">{cameraError}</div>}
               {fileName && (
                 <div className="text-xs text-zinc-400 truncate" title={fileName}>
                   {fileName}
                 </div>
               )}
+              {gif && (
+                <div className="space-y-3">
+                  <div className="text-xs text-zinc-400">
+                    Animated GIF · {gif.frames.length} frames · {(gif.frames.reduce((t, f) => t + f.delay, 0) / 1000).toFixed(1)}s
+                  </div>
+                  <Slider compact label="Frame" value={gifFrame + 1} min={1} max={gif.frames.length} onChange={(v) => setGifFrame(v - 1)} />
+                  <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                    <input type="checkbox" className="accent-zinc-100" checked={stablePatterns} onChange={(e) => setStablePatterns(e.target.checked)} />
+                    Stable patterns across frames
+                  </label>
+                </div>
+              )}
               {imageURL && (
                 <button 
                   onClick={clearImage} 
@@ -349,36 +1262,481 @@ export default function MonochromeDitheringEditor() {
             </div>
           </div>
 
+          {/* Batch */}
+          {batch.length > 0 && (
+            <div>
+              <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">BATCH · {batch.length}</div>
+              <div className="space-y-3">
+                <div className="grid grid-cols-4 gap-2">
+                  {batch.map((item) => (
+                    <div
+                      key={item.id}
+                      className={`group relative aspect-square rounded-md overflow-hidden border ${
+                        item.status === "error" ? "border-red-500" : item.status === "processing" ? "border-zinc-100" : "border-zinc-700"
+                      }`}
+                      title={item.file.name}
+                    >
+                      <button onClick={() => readFile(item.file)} className="w-full h-full">
+                        <img src={item.thumbURL} alt={item.file.name} className={`w-full h-full object-cover ${item.status === "done" ? "opacity-50" : ""}`} />
+                      </button>
+                      <button
+                        onClick={() => removeBatchItem(item)}
+                        disabled={exporting}
+                        className="absolute top-0.5 right-0.5 p-0.5 rounded bg-zinc-900/80 text-zinc-300 hover:text-white opacity-0 group-hover:opacity-100 transition"
+                        aria-label={`Remove ${item.file.name}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="text-xs text-zinc-400">Look</div>
+                  <select
+                    className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs outline-none focus:border-zinc-600"
+                    value={batchPreset}
+                    onChange={(e) => setBatchPreset(e.target.value)}
+                  >
+                    <option value="">Current settings</option>
+                    <optgroup label="Built-in">
+                      {BUILT_IN_PRESETS.map((p) => (
+                        <option key={p.name} value={`builtin:${p.name}`}>{p.name}</option>
+                      ))}
+                    </optgroup>
+                    {userPresets.length > 0 && (
+                      <optgroup label="Saved">
+                        {userPresets.map((p) => (
+                          <option key={p.name} value={`user:${p.name}`}>{p.name}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                </div>
+                <button
+                  onClick={downloadBatch}
+                  disabled={exporting}
+                  className="flex items-center justify-center gap-2 w-full px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-sm border border-zinc-700 disabled:opacity-50"
+                >
+                  <Download className="w-4 h-4" />
+                  {batchIndex !== null ? `Processing ${batchIndex + 1}/${batch.length}…` : "Download ZIP"}
+                </button>
+                {batchError && <div className="text-xs text-red-400">{batchError}</div>}
+                <button
+                  onClick={clearBatch}
+                  disabled={exporting}
+                  className="text-xs text-zinc-300 hover:text-white underline underline-offset-2"
+                >
+                  Clear Queue
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Presets */}
+          <div>
+            <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">PRESETS</div>
+            <div className="space-y-3">
+              <select
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                value={selectedPreset}
+                onChange={(e) => applyPreset(e.target.value)}
+              >
+                <option value="" disabled>Choose a preset…</option>
+                <optgroup label="Built-in">
+                  {BUILT_IN_PRESETS.map((p) => (
+                    <option key={p.name} value={`builtin:${p.name}`}>{p.name}</option>
+                  ))}
+                </optgroup>
+                {userPresets.length > 0 && (
+                  <optgroup label="Saved">
+                    {userPresets.map((p) => (
+                      <option key={p.name} value={`user:${p.name}`}>{p.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              <input
+                type="text"
+                placeholder="Preset name"
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+              />
+              <div className="flex flex-wrap gap-2">
+                <button onClick={savePreset} disabled={!presetName.trim()} className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 disabled:opacity-50">Save</button>
+                <button onClick={renamePreset} disabled={!selectedPreset.startsWith("user:") || !presetName.trim()} className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 disabled:opacity-50">Rename</button>
+                <button onClick={deletePreset} disabled={!selectedPreset.startsWith("user:")} className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 disabled:opacity-50">Delete</button>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <label className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 disabled:opacity-50 cursor-pointer">
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const f = e.target.files?.[0];
+                      if (f) importPresets(f);
+                      e.target.value = "";
+                    }}
+                  />
+                  Import JSON
+                </label>
+                <button onClick={exportPresetJSON} className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 disabled:opacity-50">Export JSON</button>
+                <button onClick={copyShareLink} className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 disabled:opacity-50" title="Copy a link that opens with these settings">Copy Link</button>
+              </div>
+              {presetError && <div className="text-xs text-red-400">{presetError}</div>}
+            </div>
+          </div>
+
+          {/* History */}
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <div className="text-xs uppercase text-zinc-400 font-medium">HISTORY</div>
+              <div className="flex gap-1">
+                <button
+                  onClick={history.undo}
+                  disabled={!history.canUndo}
+                  className="p-1.5 rounded-md hover:bg-zinc-800 transition disabled:opacity-40"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={history.redo}
+                  disabled={!history.canRedo}
+                  className="p-1.5 rounded-md hover:bg-zinc-800 transition disabled:opacity-40"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+            <div className="max-h-40 overflow-y-auto rounded-lg border border-zinc-800 divide-y divide-zinc-800">
+              {history.entries
+                .map((entry, i) => ({ entry, i }))
+                .reverse()
+                .map(({ entry, i }) => (
+                  <button
+                    key={`${i}-${entry.time}`}
+                    onClick={() => history.jump(i)}
+                    className={`w-full text-left px-3 py-1.5 text-xs truncate transition ${
+                      i === history.index ? "bg-zinc-800 text-zinc-100" : i > history.index ? "text-zinc-600 hover:bg-zinc-800/50" : "text-zinc-400 hover:bg-zinc-800/50"
+                    }`}
+                  >
+                    {entry.label}
+                  </button>
+                ))}
+            </div>
+          </div>
+
           {/* Algorithm */}
           <div>
             <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">ALGORITHM</div>
             <select
               className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
               value={algorithm}
-              onChange={(e) => setAlgorithm(e.target.value as Algorithm)}
+              onChange={(e) => update({ algorithm: e.target.value as Algorithm })}
             >
               {ALGORITHMS.map((a) => (
                 <option key={a} value={a}>{a}</option>
               ))}
             </select>
+            {GPU_ALGORITHMS.includes(algorithm) && colorMode === "gray" && (
+              <label className="mt-3 flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input type="checkbox" className="accent-zinc-100" checked={useGpu} onChange={(e) => setUseGpu(e.target.checked)} />
+                GPU preview
+                {useGpu && imageURL && !busy && <span className="text-zinc-500">{gpuActive ? "· active" : "· unavailable, using CPU"}</span>}
+              </label>
+            )}
           </div>
 
+          {/* Blue Noise */}
+          {algorithm === "Blue Noise" && (
+            <div>
+              <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">NOISE TEXTURE</div>
+              <select
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                value={blueNoiseSize}
+                onChange={(e) => update({ blueNoiseSize: parseInt(e.target.value, 10) })}
+              >
+                {BLUE_NOISE_SIZES.map((s) => (
+                  <option key={s} value={s}>{s}×{s}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Halftone */}
+          {algorithm === "Halftone" && (
+            <div>
+              <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">SCREEN</div>
+              <div className="space-y-4">
+                <select
+                  className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                  value={halftoneShape}
+                  onChange={(e) => update({ halftoneShape: e.target.value as HalftoneShape })}
+                >
+                  {HALFTONE_SHAPES.map((s) => (
+                    <option key={s} value={s}>{s} dot</option>
+                  ))}
+                </select>
+                <Slider
+                  label="Cell Size (px)"
+                  value={halftoneCell}
+                  min={2}
+                  max={32}
+                  step={1}
+                  onChange={(v) => update({ halftoneCell: v })}
+                  compact
+                />
+                <div className="text-xs text-zinc-500 -mt-2">
+                  ≈ {Math.round(300 / halftoneCell)} lpi at 300 dpi
+                </div>
+                <Slider
+                  label="Angle (°)"
+                  value={halftoneAngle}
+                  min={0}
+                  max={90}
+                  step={1}
+                  onChange={(v) => update({ halftoneAngle: v })}
+                  compact
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Random */}
+          {algorithm === "Random" && (
+            <div>
+              <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">NOISE</div>
+              <div className="space-y-4">
+                <div>
+                  <div className="text-xs text-zinc-400 mb-2">Seed</div>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={4294967295}
+                      className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm tabular-nums outline-none focus:border-zinc-600"
+                      value={seed}
+                      onChange={(e) => update({ seed: Math.max(0, Math.min(4294967295, parseInt(e.target.value, 10) || 0)) })}
+                    />
+                    <button
+                      onClick={() => update({ seed: randomSeed() })}
+                      className="px-3 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition border border-zinc-700"
+                      title="New seed"
+                    >
+                      <Dices className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <Slider
+                  label="Amplitude %"
+                  value={noiseAmplitude}
+                  min={0}
+                  max={200}
+                  step={1}
+                  onChange={(v) => update({ noiseAmplitude: v })}
+                  compact
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Error Diffusion */}
+          {isDiffusion(algorithm) && (
+            <div>
+              <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">ERROR DIFFUSION</div>
+              <div className="space-y-4">
+                {algorithm === CUSTOM_KERNEL && (
+                  <div>
+                    <div className="text-xs text-zinc-400 mb-2">Kernel rows (* = current pixel, - = empty)</div>
+                    <textarea
+                      className={`w-full h-20 bg-zinc-800 border rounded-lg px-3 py-2 text-sm font-mono outline-none focus:border-zinc-600 ${customKernel ? "border-zinc-700" : "border-red-700"}`}
+                      value={customKernelText}
+                      onChange={(e) => update({ customKernelText: e.target.value })}
+                      spellCheck={false}
+                    />
+                    {!customKernel && <div className="text-xs text-red-400 mt-1">Not a valid kernel</div>}
+                  </div>
+                )}
+                <Slider
+                  label="Error Strength %"
+                  value={errorStrength}
+                  min={0}
+                  max={150}
+                  step={1}
+                  onChange={(v) => update({ errorStrength: v })}
+                  compact
+                />
+                <div className="flex items-center justify-between">
+                  <div className="text-xs text-zinc-400">Serpentine scan</div>
+                  <label className="inline-flex items-center cursor-pointer">
+                    <input type="checkbox" className="sr-only" checked={serpentine} onChange={(e) => update({ serpentine: e.target.checked })} />
+                    <div className={`w-10 h-6 rounded-full transition ${serpentine ? "bg-zinc-200" : "bg-zinc-700"}`}>
+                      <div className={`h-6 w-6 bg-white rounded-full shadow transition transform ${serpentine ? "translate-x-4" : "translate-x-0"}`} />
+                    </div>
+                  </label>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Palette */}
           <div>
             <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">PALETTE</div>
             <select
               className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600 mb-3"
               value={paletteKey}
-              onChange={(e) => setPaletteKey(e.target.value)}
+              onChange={(e) => update({ paletteKey: e.target.value })}
             >
-              {Object.keys(PALETTES).map((k) => (
-                <option key={k} value={k}>{k}</option>
-              ))}
+              <optgroup label="Built-in">
+                {Object.keys(PALETTES).map((k) => (
+                  <option key={k} value={k}>{k}</option>
+                ))}
+              </optgroup>
+              {userPalettes.length > 0 && (
+                <optgroup label="Custom">
+                  {userPalettes.map((p) => (
+                    <option key={p.name} value={p.name}>{p.name}</option>
+                  ))}
+                </optgroup>
+              )}
+              {!findPalette(paletteKey, userPalettes) && <option value={paletteKey}>{paletteKey} (missing)</option>}
+            </select>
+            {customPalette && (
+              <input
+                key={paletteKey}
+                type="text"
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600 mb-3"
+                defaultValue={paletteKey}
+                onBlur={(e) => renamePalette(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+              />
+            )}
+            <div className="flex items-start gap-2 mb-3">
+              <span className="text-xs text-zinc-400 leading-6">Colors:</span>
+              <div className="flex flex-wrap gap-1">
+                {customPalette
+                  ? palette.map((c, i) => (
+                      <div key={i} className="relative group">
+                        <input
+                          type="color"
+                          className="block w-6 h-6 rounded border border-zinc-600 p-0 bg-transparent cursor-pointer"
+                          value={c}
+                          title={c}
+                          onChange={(e) => setPaletteColors(palette.map((old, j) => (j === i ? e.target.value : old)))}
+                        />
+                        {palette.length > 2 && (
+                          <button
+                            onClick={() => setPaletteColors(palette.filter((_, j) => j !== i))}
+                            className="absolute -top-1.5 -right-1.5 hidden group-hover:flex items-center justify-center w-3.5 h-3.5 rounded-full bg-zinc-700 text-[10px] leading-none text-zinc-200"
+                            title="Remove colour"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </div>
+                    ))
+                  : palette.map((c, i) => (
+                      <span key={i} className="inline-block w-6 h-6 rounded border border-zinc-600" style={{ background: c }} title={c} />
+                    ))}
+                {customPalette && palette.length < MAX_PALETTE_COLORS && (
+                  <button
+                    onClick={() => setPaletteColors([...palette, palette[palette.length - 1]])}
+                    className="w-6 h-6 rounded border border-dashed border-zinc-600 text-xs text-zinc-400 hover:text-white"
+                    title="Add colour"
+                  >
+                    +
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2 mb-3">
+              <button onClick={newPalette} className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700">
+                {customPalette ? "Duplicate" : "Customize"}
+              </button>
+              <button onClick={deletePalette} disabled={!customPalette} className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 disabled:opacity-50">Delete</button>
+              <label className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 cursor-pointer">
+                <input
+                  type="file"
+                  accept=".gpl,.hex,.ase,.css,.txt"
+                  className="hidden"
+                  onChange={(e) => {
+                    const f = e.target.files?.[0];
+                    if (f) importPalette(f);
+                    e.target.value = "";
+                  }}
+                />
+                Import
+              </label>
+            </div>
+            <div className="flex gap-2 mb-3">
+              <select
+                className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:border-zinc-600"
+                value={paletteFormat}
+                onChange={(e) => setPaletteFormat(e.target.value as PaletteFormat)}
+              >
+                {PALETTE_FORMATS.map((f) => (
+                  <option key={f} value={f}>{f}</option>
+                ))}
+              </select>
+              <button onClick={exportPalette} className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700">Export</button>
+            </div>
+            {paletteError && <div className="text-xs text-red-400 mb-3">{paletteError}</div>}
+            <select
+              className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+              value={colorMode}
+              onChange={(e) => update({ colorMode: e.target.value as ColorMode })}
+            >
+              <option value="gray">Grayscale ramp ({palette.length} levels)</option>
+              <option value="rgb">Full color (nearest of {palette.length})</option>
             </select>
-            <div className="flex items-center gap-2">
-              <span className="text-xs text-zinc-400">Colors:</span>
-              <span className="inline-block w-6 h-6 rounded border border-zinc-600" style={{ background: palette.bg }} />
-              <span className="inline-block w-6 h-6 rounded border border-zinc-600" style={{ background: palette.fg }} />
+          </div>
+
+          {/* Color handling */}
+          <div>
+            <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">COLOR HANDLING</div>
+            <div className="space-y-3">
+              {colorMode === "gray" ? (
+                <div className="flex items-center justify-between gap-3">
+                  <div className="text-xs text-zinc-400">Luma</div>
+                  <select
+                    className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm outline-none focus:border-zinc-600"
+                    value={lumaModel}
+                    onChange={(e) => update({ lumaModel: e.target.value as LumaModel })}
+                  >
+                    {LUMA_MODELS.map((m) => (
+                      <option key={m} value={m}>{m}</option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-3">
+                  <div className="text-xs text-zinc-400">Nearest color</div>
+                  <select
+                    className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm outline-none focus:border-zinc-600"
+                    value={colorMetric}
+                    onChange={(e) => update({ colorMetric: e.target.value as ColorMetric })}
+                  >
+                    {COLOR_METRICS.map((m) => (
+                      <option key={m} value={m}>{m === "Perceptual" ? "Perceptual (OKLab)" : m}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-xs text-zinc-400">Linear light</div>
+                  <div className="text-xs text-zinc-500 mt-1">Diffuse in linear sRGB so brightness matches</div>
+                </div>
+                <label className="inline-flex items-center cursor-pointer">
+                  <input type="checkbox" className="sr-only" checked={linearLight} onChange={(e) => update({ linearLight: e.target.checked })} />
+                  <div className={`w-10 h-6 rounded-full transition ${linearLight ? "bg-zinc-200" : "bg-zinc-700"}`}>
+                    <div className={`h-6 w-6 bg-white rounded-full shadow transition transform ${linearLight ? "translate-x-4" : "translate-x-0"}`} />
+                  </div>
+                </label>
+              </div>
             </div>
           </div>
 
@@ -388,12 +1746,29 @@ export default function MonochromeDitheringEditor() {
             <select
               className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
               value={ditherSize}
-              onChange={(e) => setDitherSize(parseInt(e.target.value, 10))}
+              onChange={(e) => update({ ditherSize: parseInt(e.target.value, 10) })}
             >
               {DITHER_SIZES.map((s) => (
                 <option key={s} value={s}>{s}px</option>
               ))}
             </select>
+            <div className="flex items-center justify-between gap-3 mt-3">
+              <div className="text-xs text-zinc-400">Resampling</div>
+              <select
+                className="bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm outline-none focus:border-zinc-600"
+                value={resampleMethod}
+                onChange={(e) => update({ resample: e.target.value as ResampleMethod })}
+              >
+                {RESAMPLE_METHODS.map((m) => (
+                  <option key={m} value={m}>{m}</option>
+                ))}
+              </select>
+            </div>
+            {previewMaskRef.current && (
+              <div className="text-xs text-zinc-500 tabular-nums mt-2">
+                Dithered at {previewMaskRef.current.w}×{previewMaskRef.current.h} in the preview
+              </div>
+            )}
           </div>
 
           {/* Threshold */}
@@ -408,22 +1783,86 @@ export default function MonochromeDitheringEditor() {
               max={255}
               value={threshold}
               disabled={algorithm !== "Threshold"}
-              onChange={(e) => setThreshold(parseInt(e.target.value, 10))}
+              onChange={(e) => update({ threshold: parseInt(e.target.value, 10) })}
               className="w-full accent-zinc-100 disabled:opacity-50"
             />
           </div>
 
           {/* Tonal Controls */}
           <div>
-            <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">TONAL ADJUSTMENTS</div>
+            <div className="flex items-center justify-between mb-3">
+              <div className="text-xs uppercase text-zinc-400 font-medium">TONAL ADJUSTMENTS</div>
+              <button
+                onClick={() => update({ toneCurve: IDENTITY_CURVE })}
+                className="text-xs text-zinc-400 hover:text-white underline underline-offset-2"
+              >
+                Reset curve
+              </button>
+            </div>
             <div className="space-y-4">
+              <ToneCurveEditor
+                points={curvePoints}
+                histogram={inputHistogram}
+                black={levelsBlack}
+                white={levelsWhite}
+                onChange={(points) => update({ toneCurve: points })}
+              />
+              <div className="flex items-center justify-between">
+                <div className="text-xs text-zinc-400">Levels</div>
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => {
+                      if (!inputHistogram) return;
+                      const { black, white } = autoLevels(inputHistogram);
+                      update({ levelsBlack: black, levelsWhite: white });
+                    }}
+                    disabled={!inputHistogram}
+                    className="text-xs text-zinc-300 hover:text-white underline underline-offset-2 disabled:opacity-50"
+                  >
+                    Auto
+                  </button>
+                  <button
+                    onClick={() => update({ levelsBlack: 0, levelsWhite: 255, levelsMid: 1 })}
+                    className="text-xs text-zinc-300 hover:text-white underline underline-offset-2"
+                  >
+                    Reset
+                  </button>
+                </div>
+              </div>
+              <Slider
+                label="Black point"
+                value={levelsBlack}
+                min={0}
+                max={254}
+                step={1}
+                onChange={(v) => update({ levelsBlack: Math.min(v, levelsWhite - 1) })}
+                compact
+              />
+              <Slider
+                label="Mid tones"
+                value={levelsMid}
+                min={0.1}
+                max={5}
+                step={0.01}
+                onChange={(v) => update({ levelsMid: v })}
+                compact
+              />
+              <Slider
+                label="White point"
+                value={levelsWhite}
+                min={1}
+                max={255}
+                step={1}
+                onChange={(v) => update({ levelsWhite: Math.max(v, levelsBlack + 1) })}
+                compact
+              />
               <Slider
                 label="Brightness"
                 value={brightness}
                 min={-100}
                 max={100}
                 step={1}
-                onChange={setBrightness}
+                onChange={(v) => update({ brightness: v })}
                 compact
               />
               <Slider
@@ -432,7 +1871,7 @@ export default function MonochromeDitheringEditor() {
                 min={-100}
                 max={100}
                 step={1}
-                onChange={setContrast}
+                onChange={(v) => update({ contrast: v })}
                 compact
               />
               <Slider
@@ -441,7 +1880,7 @@ export default function MonochromeDitheringEditor() {
                 min={0.2}
                 max={3}
                 step={0.01}
-                onChange={setGamma}
+                onChange={(v) => update({ gamma: v })}
                 compact
               />
             </div>
@@ -455,7 +1894,7 @@ export default function MonochromeDitheringEditor() {
                 <div className="text-xs text-zinc-500 mt-1">Flip black/white</div>
               </div>
               <label className="inline-flex items-center cursor-pointer">
-                <input type="checkbox" className="sr-only" checked={invert} onChange={(e) => setInvert(e.target.checked)} />
+                <input type="checkbox" className="sr-only" checked={invert} onChange={(e) => update({ invert: e.target.checked })} />
                 <div className={`w-10 h-6 rounded-full transition ${invert ? "bg-zinc-200" : "bg-zinc-700"}`}>
                   <div className={`h-6 w-6 bg-white rounded-full shadow transition transform ${invert ? "translate-x-4" : "translate-x-0"}`} />
                 </div>
@@ -463,6 +1902,240 @@ export default function MonochromeDitheringEditor() {
             </div>
           </div>
 
+          {/* Filters */}
+          <div>
+            <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">FILTERS</div>
+            <div className="space-y-3">
+              {filters.map((f, i) => (
+                <div key={i} className="bg-zinc-900/70 border border-zinc-800 rounded-lg p-3 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      className="accent-zinc-100"
+                      checked={f.enabled}
+                      onChange={(e) => setFilters(filters.map((g, j) => (j === i ? { ...g, enabled: e.target.checked } : g)))}
+                      title="Enabled"
+                    />
+                    <div className={`flex-1 text-sm ${f.enabled ? "text-zinc-200" : "text-zinc-500"}`}>{f.kind}</div>
+                    <button onClick={() => moveFilter(i, -1)} disabled={i === 0} className="text-zinc-400 hover:text-white disabled:opacity-30" title="Move up">
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => moveFilter(i, 1)} disabled={i === filters.length - 1} className="text-zinc-400 hover:text-white disabled:opacity-30" title="Move down">
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setFilters(filters.filter((_, j) => j !== i))} className="text-zinc-400 hover:text-white" title="Remove">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {f.enabled &&
+                    FILTER_PARAMS[f.kind].map((p) => (
+                      <Slider
+                        key={p.key}
+                        label={p.label}
+                        value={f.params[p.key]}
+                        min={p.min}
+                        max={p.max}
+                        step={p.step}
+                        onChange={(v) => setFilters(filters.map((g, j) => (j === i ? { ...g, params: { ...g.params, [p.key]: v } } : g)))}
+                        compact
+                      />
+                    ))}
+                </div>
+              ))}
+              <select
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                value=""
+                onChange={(e) => setFilters([...filters, createFilter(e.target.value as FilterKind)])}
+              >
+                <option value="" disabled>Add filter…</option>
+                {FILTER_KINDS.map((k) => (
+                  <option key={k} value={k}>{k}</option>
+                ))}
+              </select>
+              {filters.length > 0 && <div className="text-xs text-zinc-500">Applied top to bottom after tonal adjustments.</div>}
+            </div>
+          </div>
+
+          {/* Regions */}
+          <div>
+            <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">REGIONS</div>
+            <div className="space-y-3">
+              {regions.map((r) => (
+                <div
+                  key={r.id}
+                  onClick={() => setActiveRegion(r.id)}
+                  className={`flex items-center gap-2 rounded-lg border px-2 py-1.5 cursor-pointer ${r.id === activeRegion ? "border-zinc-500 bg-zinc-800" : "border-zinc-800"}`}
+                >
+                  <input
+                    type="checkbox"
+                    className="accent-zinc-100"
+                    checked={r.enabled}
+                    onChange={(e) => updateRegion(r.id, { enabled: e.target.checked })}
+                    aria-label={`Enable ${r.name}`}
+                  />
+                  <span className="w-3 h-3 rounded-sm shrink-0" style={{ background: r.color }} />
+                  <input
+                    type="text"
+                    className="flex-1 min-w-0 bg-transparent text-sm outline-none"
+                    value={r.name}
+                    onChange={(e) => updateRegion(r.id, { name: e.target.value })}
+                  />
+                  <span className="text-xs text-zinc-500 truncate">{r.algorithm}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteRegion(r.id);
+                    }}
+                    className="p-1 rounded text-zinc-400 hover:text-white"
+                    aria-label={`Delete ${r.name}`}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={addRegion}
+                disabled={!imageURL && !camera}
+                className="px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 disabled:opacity-50"
+              >
+                Add Region
+              </button>
+              {region ? (
+                <div className="bg-zinc-900/70 border border-zinc-800 rounded-lg p-3 space-y-3">
+                  <div className="grid grid-cols-4 gap-1">
+                    {(["pan", "brush", "erase", "lasso"] as const).map((tool) => (
+                      <button
+                        key={tool}
+                        onClick={() => setRegionTool(tool)}
+                        className={`px-2 py-1.5 rounded-lg transition text-xs border border-zinc-700 capitalize ${regionTool === tool ? "bg-white text-zinc-900" : "bg-zinc-800 hover:bg-zinc-700"}`}
+                      >
+                        {tool}
+                      </button>
+                    ))}
+                  </div>
+                  {(regionTool === "brush" || regionTool === "erase") && (
+                    <Slider compact label="Brush size" value={brushSize} min={2} max={200} onChange={setBrushSize} />
+                  )}
+                  <select
+                    className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                    value={region.algorithm}
+                    onChange={(e) => updateRegion(region.id, { algorithm: e.target.value as Algorithm })}
+                  >
+                    {ALGORITHMS.map((a) => (
+                      <option key={a} value={a}>{a}</option>
+                    ))}
+                  </select>
+                  {region.algorithm === "Threshold" && (
+                    <Slider compact label="Threshold" value={region.threshold} min={0} max={255} onChange={(v) => updateRegion(region.id, { threshold: v })} />
+                  )}
+                  <Slider compact label="Brightness" value={region.brightness} min={-100} max={100} onChange={(v) => updateRegion(region.id, { brightness: v })} />
+                  <Slider compact label="Contrast" value={region.contrast} min={-100} max={100} onChange={(v) => updateRegion(region.id, { contrast: v })} />
+                  <Slider compact label="Gamma" value={region.gamma} min={0.2} max={3} step={0.01} onChange={(v) => updateRegion(region.id, { gamma: v })} />
+                  <Slider compact label="Feather" value={region.feather} min={0} max={32} onChange={(v) => updateRegion(region.id, { feather: v })} />
+                  <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="accent-zinc-100"
+                      checked={region.invert}
+                      onChange={(e) => updateRegion(region.id, { invert: e.target.checked })}
+                    />
+                    Invert
+                  </label>
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                      <input type="checkbox" className="accent-zinc-100" checked={showRegions} onChange={(e) => setShowRegions(e.target.checked)} />
+                      Show overlay
+                    </label>
+                    <button onClick={() => clearRegionMask(region.id)} className="text-xs text-zinc-300 hover:text-white underline underline-offset-2">
+                      Clear mask
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                regions.length > 0 && <div className="text-xs text-zinc-500">Select a region to paint it on the original.</div>
+              )}
+              {regions.length > 0 && (
+                <div className="text-xs text-zinc-500">Later regions win where they overlap; everything else uses the main settings.</div>
+              )}
+            </div>
+          </div>
+
+          {/* Export */}
+          <div>
+            <div className="text-xs uppercase text-zinc-400 mb-3 font-medium">EXPORT</div>
+            <div className="space-y-3">
+              <select
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                value={exportSize}
+                onChange={(e) => setExportSize(e.target.value as typeof exportSize)}
+              >
+                <option value="original">Original resolution{naturalSize ? ` (${naturalSize.w}×${naturalSize.h})` : ""}</option>
+                <option value="preview">Preview resolution</option>
+                <option value="custom">Custom size</option>
+              </select>
+              {exportSize === "custom" && (
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm tabular-nums outline-none focus:border-zinc-600"
+                    value={exportWidth}
+                    onChange={(e) => setExportWidth(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                    title="Width (px)"
+                  />
+                  <span className="text-xs text-zinc-500">×</span>
+                  <input
+                    type="number"
+                    min={1}
+                    className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm tabular-nums outline-none focus:border-zinc-600"
+                    value={exportSourceSize()?.h ?? ""}
+                    disabled={!naturalSize}
+                    onChange={(e) => {
+                      if (!naturalSize) return;
+                      const h = Math.max(1, parseInt(e.target.value, 10) || 1);
+                      setExportWidth(Math.max(1, Math.round((h * naturalSize.w) / naturalSize.h)));
+                    }}
+                    title="Height (px)"
+                  />
+                </div>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-xs text-zinc-400">Output scale</div>
+                <select
+                  className="w-32 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-sm outline-none focus:border-zinc-600"
+                  value={outputScale}
+                  onChange={(e) => setOutputScale(e.target.value === "match" ? "match" : parseInt(e.target.value, 10))}
+                >
+                  <option value="match">Match source</option>
+                  {[1, 2, 3, 4, 6, 8, 12, 16].map((n) => (
+                    <option key={n} value={n}>{n}×</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <div className="text-xs text-zinc-400">DPI</div>
+                <input
+                  type="number"
+                  min={1}
+                  className="w-24 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-1.5 text-sm tabular-nums outline-none focus:border-zinc-600"
+                  value={dpi}
+                  onChange={(e) => setDpi(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                />
+              </div>
+              {imageURL && (() => {
+                const dims = exportDimensions();
+                if (!dims) return null;
+                const outW = dims.w * exportScale;
+                const outH = dims.h * exportScale;
+                return (
+                  <div className="text-xs text-zinc-500 tabular-nums">
+                    {dims.w}×{dims.h} grid → {outW}×{outH} px · {(outW / dpi).toFixed(1)}×{(outH / dpi).toFixed(1)} in
+                  </div>
+                );
+              })()}
+            </div>
+          </div>
+
           {/* Action Buttons */}
           <div className="space-y-3 pt-4">
             <button
@@ -474,10 +2147,91 @@ export default function MonochromeDitheringEditor() {
             <button
               onClick={downloadPNG}
               className="w-full px-4 py-2 rounded-lg bg-white text-zinc-900 hover:bg-gray-100 transition text-sm font-medium"
-              disabled={!imageURL}
+              disabled={!imageURL || exporting}
             >
-              Download PNG
+              {exporting ? "Exporting…" : "Download PNG"}
             </button>
+            {gif && (
+              <button
+                onClick={downloadGIF}
+                className="w-full px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-sm border border-zinc-700"
+                disabled={exporting}
+              >
+                {gifExportFrame !== null ? `Encoding frame ${gifExportFrame + 1}/${gif.frames.length}…` : "Download GIF"}
+              </button>
+            )}
+            <div className="flex gap-2">
+              <select
+                className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                value={svgGeometry}
+                onChange={(e) => setSvgGeometry(e.target.value as SvgGeometry)}
+              >
+                <option value="runs">SVG: merged runs</option>
+                <option value="outlines">SVG: region outlines</option>
+              </select>
+              {svgFile && svgFile.key === exportKey ? (
+                <button
+                  onClick={() => downloadBlob(svgFile.blob, exportBaseName(fileName, settings) + ".svg")}
+                  className="px-4 py-2 rounded-lg bg-white text-zinc-900 hover:bg-gray-100 transition text-sm font-medium whitespace-nowrap"
+                  title="Download SVG"
+                >
+                  Save {formatBytes(svgFile.blob.size)}
+                </button>
+              ) : (
+                <button
+                  onClick={buildSVG}
+                  className="px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-sm border border-zinc-700 whitespace-nowrap"
+                  disabled={!imageURL || exporting}
+                >
+                  Build SVG
+                </button>
+              )}
+            </div>
+            <div className="space-y-3 bg-zinc-900/70 border border-zinc-800 rounded-lg p-3">
+              <div className="text-xs uppercase text-zinc-400 font-medium">1-BIT / EMBEDDED</div>
+              <select
+                className="w-full bg-zinc-800 border border-zinc-700 rounded-lg px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                value={bitmapFormat}
+                onChange={(e) => setBitmapFormat(e.target.value as BitmapFormat)}
+              >
+                {BITMAP_FORMATS.map((f) => (
+                  <option key={f} value={f}>{f}</option>
+                ))}
+              </select>
+              {bitmapFormat === "C header" && (
+                <div className="flex gap-2">
+                  <select
+                    className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-2 text-sm outline-none focus:border-zinc-600"
+                    value={packOrder}
+                    onChange={(e) => setPackOrder(e.target.value as PackOrder)}
+                  >
+                    <option value="page">Pages (SSD1306)</option>
+                    <option value="row">Row-major</option>
+                    <option value="column">Column-major</option>
+                  </select>
+                  <select
+                    className="w-24 bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-2 text-sm outline-none focus:border-zinc-600"
+                    value={msbFirst ? "msb" : "lsb"}
+                    onChange={(e) => setMsbFirst(e.target.value === "msb")}
+                  >
+                    <option value="lsb">LSB first</option>
+                    <option value="msb">MSB first</option>
+                  </select>
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                <input type="checkbox" className="accent-zinc-100" checked={invertBits} onChange={(e) => setInvertBits(e.target.checked)} />
+                Invert bits (1 = paper)
+              </label>
+              <button
+                onClick={downloadBitmap}
+                className="w-full px-4 py-2 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-sm border border-zinc-700"
+                disabled={!imageURL || exporting}
+              >
+                Download {bitmapFormat}
+              </button>
+            </div>
+            {exportError && <div className="text-xs text-red-400">{exportError}</div>}
           </div>
         </div>
       </div>
@@ -485,34 +2239,203 @@ export default function MonochromeDitheringEditor() {
       {/* Right Main Area - Preview */}
       <div className="flex-1 flex flex-col">
         {/* Main Content */}
-        <div className="flex-1 p-6">
-          {!imageURL ? (
+        <div className="flex-1 p-6" onDrop={onDrop} onDragOver={onDragOver}>
+          {!imageURL && !camera ? (
             /* Dropzone */
             <div
-              onDrop={onDrop}
-              onDragOver={onDragOver}
               className="w-full h-full min-h-96 border-2 border-dashed border-zinc-700 rounded-2xl flex items-center justify-center text-center p-8 hover:border-zinc-600 transition-colors"
             >
               <div>
                 <div className="text-4xl mb-4">📷</div>
-                <div className="text-lg text-zinc-300 mb-2">Drag & drop an image here</div>
-                <div className="text-sm text-zinc-500">or use the Choose File button in the sidebar</div>
+                <div className="text-lg text-zinc-300 mb-2">Drag & drop images here</div>
+                <div className="text-sm text-zinc-500">or use the Choose Files button in the sidebar · several images start a batch</div>
               </div>
             </div>
           ) : (
             /* Preview Panes */
-            <div className="h-full grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="flex flex-col">
-                <div className="text-xs uppercase text-zinc-500 mb-3 font-medium">ORIGINAL</div>
-                <div className="flex-1 bg-black/20 rounded-xl overflow-hidden border border-zinc-800 flex items-center justify-center">
-                  <canvas ref={originalCanvasRef} className="max-w-full max-h-full object-contain" />
-                </div>
+            <div className="h-full flex flex-col gap-3">
+              {/* Viewer toolbar */}
+              <div className="flex flex-wrap items-center gap-2">
+                {showCompare ? (
+                  <>
+                    <select
+                      className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:border-zinc-600"
+                      value={compareAxis}
+                      onChange={(e) => setCompareAxis(e.target.value as CompareAxis)}
+                      aria-label="Compare"
+                    >
+                      {COMPARE_AXES.map((a) => (
+                        <option key={a} value={a}>{isSweep(a) ? `${a} sweep` : `Every ${a.toLowerCase()}`}</option>
+                      ))}
+                    </select>
+                    {isSweep(compareAxis) && (
+                      <select
+                        className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:border-zinc-600"
+                        value={compareSteps}
+                        onChange={(e) => setCompareSteps(parseInt(e.target.value, 10))}
+                        aria-label="Steps"
+                      >
+                        {[4, 6, 8, 12].map((n) => (
+                          <option key={n} value={n}>{n} steps</option>
+                        ))}
+                      </select>
+                    )}
+                    <select
+                      className="bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1.5 text-xs outline-none focus:border-zinc-600"
+                      value={compareWidth}
+                      onChange={(e) => setCompareWidth(parseInt(e.target.value, 10))}
+                      aria-label="Thumbnail size"
+                    >
+                      {[160, 240, 360].map((n) => (
+                        <option key={n} value={n}>{n} px</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={downloadCompareSheet}
+                      disabled={comparing || !compareResults.length}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition text-xs border border-zinc-700 disabled:opacity-50"
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                      Export Sheet
+                    </button>
+                    {compareError ? (
+                      <div className="text-xs text-red-400">{compareError}</div>
+                    ) : (
+                      <div className="text-xs text-zinc-500 tabular-nums">
+                        {comparing ? `Rendering ${compareResults.length + 1}/${compareList.length}…` : "Click a thumbnail to use its settings"}
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <>
+                  <button
+                    onClick={() => view.zoomTo("fit")}
+                    className={`px-3 py-1.5 rounded-lg transition text-xs border border-zinc-700 ${view.zoom === "fit" ? "bg-white text-zinc-900" : "bg-zinc-800 hover:bg-zinc-700"}`}
+                  >
+                    Fit
+                  </button>
+                  <button
+                    onClick={() => view.zoomTo(1)}
+                    className={`px-3 py-1.5 rounded-lg transition text-xs border border-zinc-700 ${view.zoom === 1 ? "bg-white text-zinc-900" : "bg-zinc-800 hover:bg-zinc-700"}`}
+                  >
+                    100%
+                  </button>
+                  <button onClick={zoomOut} className="p-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition border border-zinc-700" aria-label="Zoom out">
+                    <ZoomOut className="w-4 h-4" />
+                  </button>
+                  <div className="w-12 text-center text-xs text-zinc-400 tabular-nums">{zoomLabel}</div>
+                  <button onClick={zoomIn} className="p-1.5 rounded-lg bg-zinc-800 hover:bg-zinc-700 transition border border-zinc-700" aria-label="Zoom in">
+                    <ZoomIn className="w-4 h-4" />
+                  </button>
+                  </>
+                )}
+                <div className="flex-1" />
+                {!camera && (
+                  <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                    <input type="checkbox" className="accent-zinc-100" checked={compareOpen} onChange={(e) => setCompareOpen(e.target.checked)} />
+                    Compare
+                  </label>
+                )}
+                {!showCompare && (
+                  <>
+                    <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                      <input type="checkbox" className="accent-zinc-100" checked={splitView} onChange={(e) => setSplitView(e.target.checked)} />
+                      Split
+                    </label>
+                    <label className="flex items-center gap-2 text-xs text-zinc-400 cursor-pointer">
+                      <input type="checkbox" className="accent-zinc-100" checked={showLoupe} onChange={(e) => setShowLoupe(e.target.checked)} />
+                      Loupe
+                    </label>
+                  </>
+                )}
               </div>
-              <div className="flex flex-col">
-                <div className="text-xs uppercase text-zinc-500 mb-3 font-medium">DITHERED PREVIEW</div>
-                <div className="flex-1 bg-black/20 rounded-xl overflow-hidden border border-zinc-800 flex items-center justify-center">
-                  <canvas ref={ditherCanvasRef} className="max-w-full max-h-full object-contain" />
+
+              {showCompare && (
+                <div
+                  className="flex-1 min-h-96 overflow-auto grid gap-3 content-start"
+                  style={{ gridTemplateColumns: `repeat(auto-fill, minmax(${compareWidth}px, 1fr))` }}
+                >
+                  {compareResults.map((cell, i) => (
+                    <CompareThumb key={i} cell={cell} active={matchesPatch(settings, cell.patch)} onSelect={() => update(cell.patch)} />
+                  ))}
+                </div>
+              )}
+              {/* the panes stay mounted under the compare view: processing reads their canvases */}
+              <div
+                ref={previewAreaRef}
+                className={`relative flex-1 gap-6 ${showCompare ? "hidden" : "grid"} ${splitView ? "grid-cols-1" : "grid-cols-1 md:grid-cols-2"}`}
+              >
+                {/* in split view the original sits underneath the dithered pane */}
+                <div className={`flex flex-col ${splitView ? "absolute inset-0" : ""}`}>
+                  {!splitView && <div className="text-xs uppercase text-zinc-500 mb-3 font-medium">ORIGINAL</div>}
+                  <div
+                    {...paneProps}
+                    {...(painting ? paintHandlers : {})}
+                    className={`relative flex-1 min-h-96 bg-black/20 rounded-xl overflow-hidden border border-zinc-800 touch-none ${
+                      painting ? "cursor-crosshair" : "cursor-grab active:cursor-grabbing"
+                    }`}
+                  >
+                    <canvas ref={originalCanvasRef} className="absolute top-0 left-0 origin-top-left" style={canvasStyle} />
+                    <canvas ref={overlayCanvasRef} className="absolute top-0 left-0 origin-top-left pointer-events-none" style={canvasStyle} />
+                    {splitView && (
+                      <div className="absolute top-3 left-3 px-2 py-1 rounded-md bg-zinc-900/80 border border-zinc-700 text-xs uppercase text-zinc-400 font-medium">Original</div>
+                    )}
+                  </div>
+                </div>
+                <div className="relative flex flex-col">
+                  {!splitView && <div className="text-xs uppercase text-zinc-500 mb-3 font-medium">DITHERED PREVIEW</div>}
+                  <div
+                    {...paneProps}
+                    className="relative flex-1 min-h-96 bg-black/20 rounded-xl overflow-hidden border border-zinc-800 cursor-grab active:cursor-grabbing touch-none"
+                    style={splitView ? { clipPath: `inset(0 0 0 ${split * 100}%)` } : undefined}
+                  >
+                    <canvas ref={ditherCanvasRef} className="absolute top-0 left-0 origin-top-left" style={canvasStyle} />
+                    {splitView && (
+                      <div className="absolute bottom-3 right-3 px-2 py-1 rounded-md bg-zinc-900/80 border border-zinc-700 text-xs uppercase text-zinc-400 font-medium">Dithered</div>
+                    )}
+                    {camera && (
+                      <div className="absolute top-3 right-3 flex items-center gap-2 px-3 py-1.5 rounded-lg bg-zinc-900/80 border border-zinc-700 text-xs text-zinc-300 tabular-nums">
+                        <span className="w-2 h-2 rounded-full bg-red-500" />
+                        <span>Live · {liveFps} fps</span>
+                      </div>
+                    )}
+                    {busy && !camera && (
+                      <div className="absolute top-3 right-3 flex items-center gap-2 px-3 py-1.5 rounded-lg bg-zinc-900/80 border border-zinc-700 text-xs text-zinc-300">
+                        <RefreshCw className="w-3 h-3 animate-spin" />
+                        <span>Processing</span>
+                        <div className="w-16 h-1 rounded-full bg-zinc-700 overflow-hidden">
+                          <div className="h-full bg-zinc-100 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                        </div>
+                      </div>
+                    )}
+                    {processError && !busy && (
+                      <div className="absolute top-3 right-3 max-w-xs px-3 py-1.5 rounded-lg bg-zinc-900/80 border border-red-500/60 text-xs text-red-400">{processError}</div>
+                    )}
+                  </div>
                 </div>
+                {splitView && (
+                  <div
+                    className="absolute inset-y-0 z-10 w-4 -ml-2 flex justify-center cursor-ew-resize touch-none"
+                    style={{ left: `${split * 100}%` }}
+                    onPointerDown={(e) => {
+                      e.currentTarget.setPointerCapture(e.pointerId);
+                      dragSplit(e);
+                    }}
+                    onPointerMove={dragSplit}
+                  >
+                    <div className="w-0.5 h-full bg-zinc-100/80" />
+                    <div className="absolute top-1/2 -translate-y-1/2 w-4 h-8 rounded-full bg-zinc-100 border border-zinc-400" />
+                  </div>
+                )}
+                {loupe && previewMaskRef.current && (
+                  <PixelLoupe
+                    sample={loupe}
+                    source={ditherCanvasRef.current}
+                    cell={ditherSize}
+                    color={palette[loupe.index]}
+                    flip={previewAreaRef.current ? loupe.x > previewAreaRef.current.clientWidth - 200 : false}
+                  />
+                )}
               </div>
             </div>
           )}
@@ -520,16 +2443,206 @@ export default function MonochromeDitheringEditor() {
 
         {/* Footer */}
         <div className="px-6 py-4 border-t border-zinc-800 text-xs text-zinc-500">
-          Algorithms: Threshold, Floyd–Steinberg, Atkinson, Ordered Bayer (2×2, 4×4, 8×8), Random
+          Algorithms: Threshold, error diffusion (Floyd–Steinberg, Atkinson, Jarvis–Judice–Ninke, Stucki, Burkes, Sierra, custom), Ordered Bayer (2×2, 4×4, 8×8), Blue Noise, Halftone, Random ·{" "}
+          <a href="bench.html" className="underline underline-offset-2 hover:text-zinc-300">
+            Benchmark
+          </a>
         </div>
       </div>
 
       {/* Hidden img for decoding */}
       <img ref={imgRef} src={imageURL ?? undefined} alt="uploaded" className="hidden" />
+      <video ref={videoRef} muted playsInline className="hidden" />
+    </div>
+  );
+}
+
+// one Compare cell, painted at its pixel size and scaled to the grid column
+function CompareThumb({ cell, active, onSelect }: { cell: CompareResult; active: boolean; onSelect: () => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    canvas.width = cell.w * cell.pixelSize;
+    canvas.height = cell.h * cell.pixelSize;
+    paintIndices(ctx, cell.mask, cell.w, cell.h, cell.palette, cell.pixelSize);
+  }, [cell]);
+
+  return (
+    <button
+      onClick={onSelect}
+      title={`Use ${cell.label}`}
+      className={`text-left rounded-xl border p-2 transition ${active ? "border-zinc-100 bg-zinc-800" : "border-zinc-800 bg-zinc-900/60 hover:border-zinc-600"}`}
+    >
+      <canvas ref={canvasRef} className="block w-full h-auto rounded-md" style={{ imageRendering: "pixelated" }} />
+      <div className={`mt-2 text-xs truncate ${active ? "text-zinc-100" : "text-zinc-400"}`}>{cell.label}</div>
+    </button>
+  );
+}
+
+type LoupeSample = {
+  x: number; // pointer position within the preview area
+  y: number;
+  gx: number; // working-grid pixel
+  gy: number;
+  gray: number; // source gray of that pixel (before tonal adjustments)
+  index: number; // palette index it dithered to
+};
+
+const LOUPE_CELLS = 9; // working pixels across the magnifier
+const LOUPE_ZOOM = 12; // screen pixels per working pixel
+
+// Magnified dithered neighbourhood around the hovered working pixel, with
+// the pixel's source gray and resulting palette entry.
+function PixelLoupe({
+  sample,
+  source,
+  cell,
+  color,
+  flip,
+}: {
+  sample: LoupeSample;
+  source: HTMLCanvasElement | null;
+  cell: number; // canvas pixels per working pixel
+  color: string | undefined;
+  flip: boolean; // show left of the pointer near the right edge
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const size = LOUPE_CELLS * LOUPE_ZOOM;
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !source) return;
+    const half = (LOUPE_CELLS - 1) / 2;
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = "#18181b";
+    ctx.fillRect(0, 0, size, size);
+    ctx.drawImage(source, (sample.gx - half) * cell, (sample.gy - half) * cell, LOUPE_CELLS * cell, LOUPE_CELLS * cell, 0, 0, size, size);
+    ctx.strokeStyle = "#f43f5e";
+    ctx.lineWidth = 2;
+    ctx.strokeRect(half * LOUPE_ZOOM + 1, half * LOUPE_ZOOM + 1, LOUPE_ZOOM - 2, LOUPE_ZOOM - 2);
+  }, [sample, source, cell, size]);
+
+  return (
+    <div
+      className="pointer-events-none absolute z-20 p-2 rounded-lg bg-zinc-900/95 border border-zinc-700 shadow-lg"
+      style={{ left: flip ? sample.x - size - 32 : sample.x + 16, top: sample.y + 16 }}
+    >
+      <canvas ref={canvasRef} width={size} height={size} className="block rounded" />
+      <div className="mt-2 space-y-0.5 text-xs text-zinc-300 tabular-nums">
+        <div className="text-zinc-500">
+          x {sample.gx} · y {sample.gy}
+        </div>
+        <div>Gray {Math.round(sample.gray)}</div>
+        <div className="flex items-center gap-1.5">
+          <span className="w-3 h-3 rounded-sm border border-zinc-600" style={{ background: color }} />
+          Index {sample.index}
+          {color && <span className="text-zinc-500">{color}</span>}
+        </div>
+      </div>
     </div>
   );
 }
 
+// Tone curve drawn over the input histogram (levels black/white points as
+// guides). Drag a point to move it, click empty space to add one and
+// double-click an inner point to remove it; the end points move vertically.
+function ToneCurveEditor({
+  points,
+  histogram,
+  black,
+  white,
+  onChange,
+}: {
+  points: CurvePoint[];
+  histogram: Uint32Array | null;
+  black: number;
+  white: number;
+  onChange: (points: CurvePoint[]) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<number | null>(null);
+
+  const curvePath = useMemo(() => {
+    const f = toneCurve(points);
+    return Array.from({ length: 65 }, (_, i) => `${i ? "L" : "M"}${(i * 255) / 64},${(255 - f((i * 255) / 64)).toFixed(1)}`).join("");
+  }, [points]);
+
+  const histogramPath = useMemo(() => {
+    if (!histogram) return "";
+    // scale to the tallest inner bin so clipped shadows/highlights don't flatten the rest
+    let max = 1;
+    for (let x = 1; x < 255; x++) max = Math.max(max, histogram[x]);
+    let d = "M0,255";
+    for (let x = 0; x < 256; x++) d += `L${x},${(255 - Math.min(1, histogram[x] / max) * 255).toFixed(1)}`;
+    return d + "L255,255Z";
+  }, [histogram]);
+
+  const toPoint = (e: React.PointerEvent | React.MouseEvent): CurvePoint => {
+    const r = svgRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+    return [clamp(((e.clientX - r.left) / r.width) * 255), clamp(255 - ((e.clientY - r.top) / r.height) * 255)];
+  };
+  const near = ([x, y]: CurvePoint) => points.findIndex(([px, py]) => Math.abs(px - x) <= 8 && Math.abs(py - y) <= 8);
+
+  function onPointerDown(e: React.PointerEvent) {
+    const p = toPoint(e);
+    let i = near(p);
+    if (i < 0) {
+      if (points.some(([x]) => x === p[0])) return;
+      const next = [...points, p].sort((a, b) => a[0] - b[0]);
+      i = next.indexOf(p);
+      onChange(next);
+    }
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDrag(i);
+  }
+
+  function onPointerMove(e: React.PointerEvent) {
+    if (drag === null) return;
+    let [x, y] = toPoint(e);
+    // points keep their order: ends keep their x, inner points stay between neighbours
+    if (drag === 0 || drag === points.length - 1) x = points[drag][0];
+    else x = Math.max(points[drag - 1][0] + 1, Math.min(points[drag + 1][0] - 1, x));
+    onChange(points.map((p, j) => (j === drag ? [x, y] : p)));
+  }
+
+  function onDoubleClick(e: React.MouseEvent) {
+    const i = near(toPoint(e));
+    if (i > 0 && i < points.length - 1) onChange(points.filter((_, j) => j !== i));
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox="0 0 255 255"
+      className="w-full aspect-square bg-zinc-900/70 border border-zinc-800 rounded-lg touch-none cursor-crosshair"
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={() => setDrag(null)}
+      onPointerCancel={() => setDrag(null)}
+      onDoubleClick={onDoubleClick}
+    >
+      {[64, 128, 192].map((v) => (
+        <g key={v} stroke="#3f3f46" strokeWidth={0.5}>
+          <line x1={v} y1={0} x2={v} y2={255} />
+          <line x1={0} y1={v} x2={255} y2={v} />
+        </g>
+      ))}
+      {histogramPath && <path d={histogramPath} fill="#52525b" opacity={0.6} />}
+      <line x1={black} y1={0} x2={black} y2={255} stroke="#a1a1aa" strokeWidth={0.75} strokeDasharray="3 3" />
+      <line x1={white} y1={0} x2={white} y2={255} stroke="#a1a1aa" strokeWidth={0.75} strokeDasharray="3 3" />
+      <line x1={0} y1={255} x2={255} y2={0} stroke="#52525b" strokeWidth={0.75} />
+      <path d={curvePath} fill="none" stroke="#f4f4f5" strokeWidth={1.5} />
+      {points.map(([x, y], i) => (
+        <circle key={i} cx={x} cy={255 - y} r={4} fill={drag === i ? "#f4f4f5" : "#18181b"} stroke="#f4f4f5" strokeWidth={1.5} />
+      ))}
+    </svg>
+  );
+}
+
 function Slider({ 
   label, 
   value, 
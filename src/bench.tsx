@@ -0,0 +1,188 @@
+/**
+ * Benchmark page
+ * -------------------------------------------------------------
+ * Times the CPU and GPU (WebGL2) dither paths for the modes the GPU
+ * supports on a synthetic test image, checks that both produce the same
+ * mask, and times the ImageData paint stage. Served as /bench.html.
+ */
+import { StrictMode, useMemo, useState } from "react";
+import { createRoot } from "react-dom/client";
+import "./index.css";
+import { indicesToRgba, quantize, type DitherSettings } from "@/lib/dither";
+import { createGpuDitherer, GPU_ALGORITHMS } from "@/lib/gpuDither";
+import { PALETTES } from "@/lib/palettes";
+import { mulberry32 } from "@/lib/prng";
+import { DEFAULT_SETTINGS } from "@/lib/settings";
+
+const SIZES = [512, 1024, 2048];
+const PIXEL_SIZES = [1, 4, 16];
+const RUNS = 5;
+
+type Row = {
+  algorithm: string;
+  cpu: number; // median ms
+  gpu: number | null;
+  mismatched: number | null; // pixels that differ between the two paths
+};
+
+// horizontal ramp, vertical sine and a little noise, so every level and pattern shows up
+function testImage(size: number): Uint8ClampedArray {
+  const random = mulberry32(1);
+  const rgba = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const v = (x / size) * 200 + Math.sin((y / size) * Math.PI * 6) * 40 + random() * 30;
+      const i = (y * size + x) * 4;
+      rgba[i] = rgba[i + 1] = rgba[i + 2] = v;
+      rgba[i + 3] = 255;
+    }
+  }
+  return rgba;
+}
+
+// median wall time of `runs` calls after one warm-up
+function time<T>(fn: () => T, runs: number): { ms: number; result: T } {
+  let result = fn();
+  const times: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const t0 = performance.now();
+    result = fn();
+    times.push(performance.now() - t0);
+  }
+  times.sort((a, b) => a - b);
+  return { ms: times[times.length >> 1], result };
+}
+
+const nextFrame = () => new Promise((resolve) => setTimeout(resolve));
+
+function Benchmark() {
+  const gpu = useMemo(() => createGpuDitherer(), []);
+  const [size, setSize] = useState<number>(1024);
+  const [paletteKey, setPaletteKey] = useState<string>("Black & White");
+  const [pixelSize, setPixelSize] = useState<number>(4);
+  const [rows, setRows] = useState<Row[]>([]);
+  const [paintMs, setPaintMs] = useState<number | null>(null);
+  const [running, setRunning] = useState<string | null>(null);
+
+  async function run() {
+    const rgba = testImage(size);
+    const palette = PALETTES[paletteKey];
+    const results: Row[] = [];
+    setRows([]);
+    setPaintMs(null);
+    for (const algorithm of GPU_ALGORITHMS) {
+      setRunning(algorithm);
+      await nextFrame();
+      const s: DitherSettings = { ...DEFAULT_SETTINGS, algorithm, seed: 42 };
+      const cpu = time(() => quantize(rgba, size, size, s, palette), RUNS);
+      const onGpu = gpu?.supports(s, size, size) ? time(() => gpu.quantize(rgba, size, size, s, palette), RUNS) : null;
+      let mismatched: number | null = null;
+      if (onGpu) {
+        mismatched = 0;
+        for (let p = 0; p < cpu.result.length; p++) if (cpu.result[p] !== onGpu.result[p]) mismatched++;
+      }
+      results.push({ algorithm, cpu: cpu.ms, gpu: onGpu?.ms ?? null, mismatched });
+      setRows([...results]);
+    }
+    setRunning("Paint");
+    await nextFrame();
+    // paint cost at the pixel size: the working grid shrinks as blocks grow
+    const grid = Math.max(1, Math.round(size / pixelSize));
+    const mask = quantize(testImage(grid), grid, grid, { ...DEFAULT_SETTINGS, algorithm: "Ordered Bayer 4x4" }, palette);
+    setPaintMs(time(() => indicesToRgba(mask, grid, grid, palette, pixelSize), RUNS).ms);
+    setRunning(null);
+  }
+
+  const select = "bg-zinc-800 border border-zinc-700 rounded-lg px-2 py-1 text-xs outline-none focus:border-zinc-600";
+  const ms = (v: number) => `${v.toFixed(1)} ms`;
+
+  return (
+    <div className="min-h-screen w-full bg-zinc-950 text-zinc-100 p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-xl font-semibold tracking-tight">Dithering Benchmark</h1>
+          <p className="text-zinc-400 text-sm mt-1">
+            CPU vs GPU dithering on a synthetic {size}×{size} image, median of {RUNS} runs.{" "}
+            <a href="./" className="underline underline-offset-2 hover:text-white">
+              Back to the editor
+            </a>
+          </p>
+          {!gpu && <p className="text-amber-400 text-sm mt-2">WebGL2 is not available here: only the CPU path runs.</p>}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-xs text-zinc-400">
+          <label className="flex items-center gap-2">
+            Size
+            <select className={select} value={size} onChange={(e) => setSize(parseInt(e.target.value, 10))}>
+              {SIZES.map((s) => (
+                <option key={s} value={s}>{s}×{s}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Palette
+            <select className={select} value={paletteKey} onChange={(e) => setPaletteKey(e.target.value)}>
+              {Object.keys(PALETTES).map((k) => (
+                <option key={k} value={k}>{k}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Pixel size
+            <select className={select} value={pixelSize} onChange={(e) => setPixelSize(parseInt(e.target.value, 10))}>
+              {PIXEL_SIZES.map((p) => (
+                <option key={p} value={p}>{p}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={run}
+            disabled={running !== null}
+            className="px-4 py-2 rounded-lg bg-white text-zinc-900 hover:bg-gray-100 transition text-sm font-medium disabled:opacity-50"
+          >
+            {running ? `Running ${running}…` : "Run"}
+          </button>
+        </div>
+
+        {rows.length > 0 && (
+          <table className="w-full text-sm tabular-nums">
+            <thead className="text-xs uppercase text-zinc-500">
+              <tr className="border-b border-zinc-800">
+                <th className="text-left font-medium py-2">Algorithm</th>
+                <th className="text-right font-medium py-2">CPU</th>
+                <th className="text-right font-medium py-2">GPU</th>
+                <th className="text-right font-medium py-2">Speed-up</th>
+                <th className="text-right font-medium py-2">Mismatched px</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.algorithm} className="border-b border-zinc-800/60">
+                  <td className="py-2">{r.algorithm}</td>
+                  <td className="py-2 text-right">{ms(r.cpu)}</td>
+                  <td className="py-2 text-right">{r.gpu !== null ? ms(r.gpu) : "—"}</td>
+                  <td className="py-2 text-right">{r.gpu !== null ? `${(r.cpu / Math.max(0.01, r.gpu)).toFixed(1)}×` : "—"}</td>
+                  <td className={`py-2 text-right ${r.mismatched ? "text-amber-400" : ""}`}>{r.mismatched ?? "—"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {paintMs !== null && (
+          <div className="text-sm text-zinc-400">
+            Paint ({size}×{size} output at pixel size {pixelSize}, ImageData): <span className="text-zinc-100 tabular-nums">{ms(paintMs)}</span>
+          </div>
+        )}
+        <p className="text-xs text-zinc-500">
+          GPU times include the CPU tone stage, texture upload and read-back, i.e. what the preview actually waits for.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+createRoot(document.getElementById("root")!).render(
+  <StrictMode>
+    <Benchmark />
+  </StrictMode>
+);
@@ -0,0 +1,35 @@
+import { encode as encodeJpeg } from "jpeg-js";
+import { PNG } from "pngjs";
+import { describe, expect, it } from "vitest";
+import { DecodeError, decodeImage } from "./decode";
+
+function png(w: number, h: number, rgba: number[]): Uint8Array {
+  const image = new PNG({ width: w, height: h });
+  image.data.set(rgba);
+  return new Uint8Array(PNG.sync.write(image));
+}
+
+describe("decodeImage", () => {
+  it("reads opaque PNG pixels unchanged", () => {
+    const rgba = [10, 20, 30, 255, 200, 100, 0, 255];
+    expect(decodeImage(png(2, 1, rgba))).toEqual({ width: 2, height: 1, rgba: Uint8ClampedArray.from(rgba) });
+  });
+
+  it("rounds colour through premultiplied alpha the way a canvas does", () => {
+    // fully transparent pixels come back black, partly transparent ones lose precision
+    const { rgba } = decodeImage(png(2, 1, [255, 128, 7, 0, 255, 128, 7, 3]));
+    expect(Array.from(rgba)).toEqual([0, 0, 0, 0, 255, 170, 0, 3]);
+  });
+
+  it("reads JPEGs", () => {
+    const data = Buffer.alloc(8 * 8 * 4, 255);
+    const { width, height, rgba } = decodeImage(new Uint8Array(encodeJpeg({ data, width: 8, height: 8 }, 90).data));
+    expect([width, height]).toEqual([8, 8]);
+    expect(Math.min(...rgba)).toBeGreaterThan(250);
+  });
+
+  it("rejects other files and broken images", () => {
+    expect(() => decodeImage(new TextEncoder().encode("GIF89a"))).toThrow(DecodeError);
+    expect(() => decodeImage(png(2, 2, new Array(16).fill(0)).subarray(0, 40))).toThrow(DecodeError);
+  });
+});
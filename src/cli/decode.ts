@@ -0,0 +1,49 @@
+/**
+ * Image decoding (Node)
+ * -------------------------------------------------------------
+ * PNG and JPEG files to RGBA for the command-line tool. The pixels are
+ * handed over the way a browser canvas hands them to the editor: a canvas
+ * stores 8-bit premultiplied colour, so fully transparent pixels read back
+ * black and partly transparent ones are rounded through their alpha.
+ */
+import { decode as decodeJpeg } from "jpeg-js";
+import { PNG } from "pngjs";
+
+export type DecodedImage = { width: number; height: number; rgba: Uint8ClampedArray };
+
+export class DecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DecodeError";
+  }
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+
+const startsWith = (bytes: Uint8Array, sig: number[]) => sig.every((b, i) => bytes[i] === b);
+
+// premultiply to 8 bits and back, as drawImage + getImageData do
+function canvasRoundTrip(rgba: Uint8ClampedArray): Uint8ClampedArray {
+  for (let i = 0; i < rgba.length; i += 4) {
+    const a = rgba[i + 3];
+    if (a === 255) continue;
+    for (let c = i; c < i + 3; c++) rgba[c] = a ? Math.round((Math.round((rgba[c] * a) / 255) * 255) / a) : 0;
+  }
+  return rgba;
+}
+
+/** Decodes a PNG or JPEG file, picking the format from its signature. */
+export function decodeImage(bytes: Uint8Array): DecodedImage {
+  let image: { width: number; height: number; data: Uint8Array };
+  try {
+    if (startsWith(bytes, PNG_SIGNATURE)) image = PNG.sync.read(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+    else if (startsWith(bytes, JPEG_SIGNATURE)) image = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+    else throw new DecodeError("Not a PNG or JPEG file");
+  } catch (err) {
+    if (err instanceof DecodeError) throw err;
+    throw new DecodeError(`Could not decode image: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const { width, height, data } = image;
+  return { width, height, rgba: canvasRoundTrip(new Uint8ClampedArray(data.buffer, data.byteOffset, width * height * 4)) };
+}
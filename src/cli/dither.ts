@@ -0,0 +1,344 @@
+#!/usr/bin/env node
+/**
+ * dither: command-line tool
+ * -------------------------------------------------------------
+ * Headless version of the editor's export for asset builds. Decodes PNG
+ * and JPEG files, runs them through the editor's own pipeline with settings
+ * from flags, a preset file or both, and writes indexed PNGs or the 1-bit
+ * formats. Given the same image, settings and export options the files
+ * match what the editor downloads. Built to dist-cli/ by `npm run build:cli`.
+ */
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { BLUE_NOISE_SIZES } from "../lib/blueNoise";
+import { encodeBitmap, maskToBits, type BitmapFormat, type PackOrder } from "../lib/bitmap";
+import { findPalette, PaletteError, parsePaletteFile, type CustomPalette } from "../lib/customPalettes";
+import { ALGORITHMS, COLOR_METRICS, DITHER_SIZES, LUMA_MODELS } from "../lib/dither";
+import { exportBaseName } from "../lib/download";
+import { FILTER_KINDS } from "../lib/filters";
+import { HALFTONE_SHAPES } from "../lib/halftone";
+import { parseKernel } from "../lib/kernels";
+import { PALETTES, type Palette } from "../lib/palettes";
+import { exportJob, runPipeline } from "../lib/pipeline";
+import { encodeIndexedPng } from "../lib/png";
+import { BUILT_IN_PRESETS, parsePresetFile } from "../lib/presets";
+import { RESAMPLE_METHODS } from "../lib/resample";
+import { DEFAULT_SETTINGS, parseSettings, SETTING_RANGES, SettingsError, type EditorSettings } from "../lib/settings";
+import { uniqueNames } from "../lib/zip";
+import { DecodeError, decodeImage } from "./decode";
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// ---------- Options ----------
+// Every settings key is a flag in kebab case (--dither-size 2). Booleans are
+// switches with a --no- form; the tone curve and filter stack take JSON.
+const SETTING_KEYS = Object.keys(DEFAULT_SETTINGS) as (keyof EditorSettings)[];
+
+const kebab = (key: string) => key.replace(/[A-Z]/g, (c) => "-" + c.toLowerCase());
+
+const CHOICES: Partial<Record<keyof EditorSettings, readonly string[]>> = {
+  algorithm: ALGORITHMS,
+  colorMode: ["gray", "rgb"],
+  colorMetric: COLOR_METRICS,
+  lumaModel: LUMA_MODELS,
+  resample: RESAMPLE_METHODS,
+  halftoneShape: HALFTONE_SHAPES,
+};
+
+// CLI names for the export formats, with the extension the editor downloads them under
+const FORMATS: Record<string, { format: BitmapFormat | "png"; ext: string }> = {
+  png: { format: "png", ext: "png" },
+  pbm: { format: "PBM (P4)", ext: "pbm" },
+  "pbm-ascii": { format: "PBM (P1)", ext: "pbm" },
+  xbm: { format: "XBM", ext: "xbm" },
+  bmp: { format: "BMP 1-bit", ext: "bmp" },
+  c: { format: "C header", ext: "h" },
+};
+
+const PACK_ORDERS: PackOrder[] = ["row", "page", "column"];
+
+type OptionSpec = { type: "string" | "boolean"; short?: string };
+
+const OPTIONS: Record<string, OptionSpec> = {
+  out: { type: "string", short: "o" },
+  format: { type: "string", short: "f" },
+  preset: { type: "string", short: "p" },
+  "preset-name": { type: "string" },
+  "palette-file": { type: "string" },
+  width: { type: "string", short: "w" },
+  scale: { type: "string" },
+  dpi: { type: "string" },
+  "pack-order": { type: "string" },
+  "msb-first": { type: "boolean" },
+  "invert-bits": { type: "boolean" },
+  help: { type: "boolean", short: "h" },
+  ...Object.fromEntries(
+    SETTING_KEYS.flatMap((key): [string, OptionSpec][] =>
+      typeof DEFAULT_SETTINGS[key] === "boolean"
+        ? [
+            [kebab(key), { type: "boolean" }],
+            [`no-${kebab(key)}`, { type: "boolean" }],
+          ]
+        : [[kebab(key), { type: "string" }]]
+    )
+  ),
+};
+
+type Values = Record<string, string | boolean | undefined>;
+
+const USAGE = `Usage: dither [options] <image...>
+
+Dithers PNG and JPEG files exactly like the editor's export and writes one
+file per input, named <image>_<algorithm>.<ext> as the editor names downloads.
+
+Look
+  -p, --preset <file|name>   preset or settings JSON saved by the editor, or a
+                             built-in preset (${BUILT_IN_PRESETS.map((p) => p.name).join(", ")})
+      --preset-name <name>   which preset to use when the file holds several
+      --palette-file <file>  custom palette (.gpl, .hex, .ase, CSS hex) to dither with
+  --<setting> <value>        any settings key in kebab case, overriding the preset:
+                             --algorithm Atkinson --dither-size 2 --palette-key "Game Boy"
+                             --gamma 1.2 --serpentine --no-invert --custom-kernel-text "- * 7; 3 5 1"
+                             --tone-curve "[[0,0],[128,160],[255,255]]" --filters "<JSON>"
+
+Export
+  -o, --out <path>           output directory (default: current), or a file name
+                             when there is a single input
+  -f, --format <name>        ${Object.keys(FORMATS).join(", ")} (default: png)
+  -w, --width <px>           export width, height follows the aspect
+                             (default: the image's own size)
+      --scale <n|match>      PNG pixel upscale (default: match = dither size)
+      --dpi <n>              PNG resolution (default: 300)
+      --pack-order <order>   C header byte order: ${PACK_ORDERS.join(", ")} (default: page)
+      --msb-first            C header bit order
+      --invert-bits          swap ink and paper in 1-bit formats
+  -h, --help                 show this help
+
+Choices
+${Object.entries(CHOICES)
+  .map(([key, options]) => `  --${kebab(key)}: ${options!.join(", ")}`)
+  .join("\n")}
+  --palette-key: ${Object.keys(PALETTES).join(", ")}
+`;
+
+// ---------- Settings ----------
+// dash variants and case don't matter when matching a choice (Floyd-Steinberg)
+const normalize = (s: string) => s.toLowerCase().replace(/[‐-―]/g, "-");
+
+function settingFlags(values: Values): Partial<Record<keyof EditorSettings, unknown>> {
+  const given: Partial<Record<keyof EditorSettings, unknown>> = {};
+  for (const key of SETTING_KEYS) {
+    const flag = kebab(key);
+    const fallback = DEFAULT_SETTINGS[key];
+    if (typeof fallback === "boolean") {
+      if (values[flag]) given[key] = true;
+      if (values[`no-${flag}`]) given[key] = false;
+      continue;
+    }
+    const v = values[flag];
+    if (typeof v !== "string") continue;
+    if (typeof fallback === "number") {
+      const n = Number(v);
+      if (!v.trim() || !Number.isFinite(n)) throw new UsageError(`--${flag} expects a number, got "${v}"`);
+      given[key] = n;
+    } else if (typeof fallback === "string") {
+      const options = CHOICES[key];
+      const match = options ? options.find((o) => normalize(o) === normalize(v)) : v;
+      if (match === undefined) throw new UsageError(`--${flag} must be one of: ${options!.join(", ")}`);
+      given[key] = match;
+    } else {
+      try {
+        given[key] = JSON.parse(v);
+      } catch {
+        throw new UsageError(`--${flag} expects JSON`);
+      }
+    }
+  }
+  return given;
+}
+
+// whether validation left a value as given; objects may gain defaulted fields
+function kept(given: unknown, parsed: unknown): boolean {
+  if (Array.isArray(given)) return Array.isArray(parsed) && given.length === parsed.length && given.every((v, i) => kept(v, parsed[i]));
+  if (typeof given === "object" && given !== null) {
+    return typeof parsed === "object" && parsed !== null && Object.entries(given).every(([k, v]) => kept(v, (parsed as Record<string, unknown>)[k]));
+  }
+  return given === parsed;
+}
+
+function expected(key: keyof EditorSettings): string {
+  const range = SETTING_RANGES[key];
+  if (range) return `must be ${range.whole ? "a whole number" : "a number"} from ${range.min} to ${range.max}`;
+  if (key === "ditherSize") return `must be one of: ${DITHER_SIZES.join(", ")}`;
+  if (key === "blueNoiseSize") return `must be one of: ${BLUE_NOISE_SIZES.join(", ")}`;
+  if (key === "toneCurve") return "expects at least two [x, y] points in 0-255, sorted by x";
+  if (key === "filters") return `expects a list of { kind, enabled, params } steps with parameters in range, kind one of: ${FILTER_KINDS.join(", ")}`;
+  return "is not valid";
+}
+
+// parseSettings quietly clamps and falls back, which suits files and links;
+// a value typed as a flag has to be used as given or rejected
+function checkFlags(given: Partial<Record<keyof EditorSettings, unknown>>, merged: Record<string, unknown>, settings: EditorSettings) {
+  const levels = given.levelsBlack !== undefined || given.levelsWhite !== undefined;
+  if (levels && typeof merged.levelsWhite === "number" && merged.levelsWhite <= settings.levelsBlack) {
+    throw new UsageError(`--levels-white must be above --levels-black (${settings.levelsBlack})`);
+  }
+  for (const key of Object.keys(given) as (keyof EditorSettings)[]) {
+    if (!kept(given[key], settings[key])) throw new UsageError(`--${kebab(key)} ${expected(key)}, got ${JSON.stringify(given[key])}`);
+  }
+}
+
+async function presetSettings(preset: string | undefined, name: string | undefined): Promise<EditorSettings> {
+  if (!preset) return DEFAULT_SETTINGS;
+  const builtIn = BUILT_IN_PRESETS.find((p) => normalize(p.name) === normalize(preset));
+  if (builtIn) return builtIn.settings;
+  let json: unknown;
+  try {
+    json = JSON.parse(await readFile(preset, "utf8"));
+  } catch (err) {
+    throw new UsageError(`Could not read preset ${preset}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const presets = parsePresetFile(json);
+  if (name) {
+    const found = presets.find((p) => p.name === name);
+    if (!found) throw new UsageError(`No preset "${name}" in ${preset} (has: ${presets.map((p) => p.name).join(", ")})`);
+    return found.settings;
+  }
+  if (presets.length > 1) throw new UsageError(`${preset} holds several presets, pick one with --preset-name: ${presets.map((p) => p.name).join(", ")}`);
+  return presets[0].settings;
+}
+
+async function resolveLook(values: Values): Promise<{ settings: EditorSettings; palette: Palette }> {
+  const base = await presetSettings(values.preset as string | undefined, values["preset-name"] as string | undefined);
+  const given = settingFlags(values);
+  const custom: CustomPalette[] = [];
+  const paletteFile = values["palette-file"] as string | undefined;
+  if (paletteFile) {
+    let bytes: Buffer<ArrayBuffer>;
+    try {
+      bytes = await readFile(paletteFile);
+    } catch (err) {
+      throw new UsageError(`Could not read palette ${paletteFile}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    let parsed: CustomPalette;
+    try {
+      parsed = parsePaletteFile(path.basename(paletteFile), bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+    } catch (err) {
+      throw new PaletteError(`Could not read palette ${paletteFile}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    custom.push(parsed);
+    given.paletteKey ??= parsed.name;
+  }
+  const merged = { ...base, ...given };
+  const settings = parseSettings(merged);
+  checkFlags(given, merged, settings);
+  const palette = findPalette(settings.paletteKey, custom);
+  if (!palette) throw new UsageError(`Unknown palette "${settings.paletteKey}"; use --palette-file for custom palettes`);
+  return { settings, palette };
+}
+
+// ---------- Export options ----------
+function positiveInt(values: Values, flag: string): number | undefined {
+  const v = values[flag];
+  if (typeof v !== "string") return undefined;
+  const n = Number(v);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`--${flag} expects a positive whole number, got "${v}"`);
+  return n;
+}
+
+function exportOptions(values: Values) {
+  const format = FORMATS[((values.format as string | undefined) ?? "png").toLowerCase()];
+  if (!format) throw new UsageError(`--format must be one of: ${Object.keys(FORMATS).join(", ")}`);
+  const order = ((values["pack-order"] as string | undefined) ?? "page") as PackOrder;
+  if (!PACK_ORDERS.includes(order)) throw new UsageError(`--pack-order must be one of: ${PACK_ORDERS.join(", ")}`);
+  const scale = values.scale === "match" ? undefined : positiveInt(values, "scale");
+  return {
+    ...format,
+    width: positiveInt(values, "width"),
+    scale, // undefined = match the dither size
+    dpi: positiveInt(values, "dpi") ?? 300,
+    pack: { order, msbFirst: !!values["msb-first"] },
+    invertBits: !!values["invert-bits"],
+  };
+}
+
+// ---------- Run ----------
+type ExportOptions = ReturnType<typeof exportOptions>;
+
+// the editor's exportSourceSize → ditherForExport → download steps for one file
+async function ditherFile(
+  input: string,
+  settings: EditorSettings,
+  palette: Palette,
+  opts: ExportOptions
+): Promise<{ data: Uint8Array; w: number; h: number }> {
+  const image = decodeImage(await readFile(input));
+  const size = opts.width
+    ? { w: opts.width, h: Math.max(1, Math.round((opts.width * image.height) / image.width)) }
+    : { w: image.width, h: image.height };
+  const job = exportJob(image.rgba, image.width, image.height, size, settings);
+  const dims = { w: job.width, h: job.height };
+  const mask = runPipeline({ ...job, settings: { ...settings, customKernel: parseKernel(settings.customKernelText) }, palette });
+
+  if (opts.format === "png") {
+    const scale = opts.scale ?? settings.ditherSize;
+    const png = await encodeIndexedPng(mask, dims.w, dims.h, palette, { scale, dpi: opts.dpi });
+    return { data: new Uint8Array(await png.arrayBuffer()), w: dims.w * scale, h: dims.h * scale };
+  }
+  // 1-bit formats are written at working resolution, as in the editor
+  const bits = maskToBits(mask, palette, opts.invertBits);
+  const { data } = encodeBitmap(opts.format, bits, dims.w, dims.h, exportBaseName(path.basename(input), settings), palette, opts.pack, opts.invertBits);
+  return { data: typeof data === "string" ? new TextEncoder().encode(data) : data, ...dims };
+}
+
+async function main(args: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args, options: OPTIONS, allowPositionals: true });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : String(err));
+  }
+  const { values, positionals: inputs } = parsed;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (!inputs.length) throw new UsageError("No input images (see --help)");
+
+  const { settings, palette } = await resolveLook(values);
+  const opts = exportOptions(values);
+  const out = (values.out as string | undefined) ?? ".";
+  const toFile = inputs.length === 1 && path.extname(out) !== "";
+  const names = uniqueNames(inputs.map((input) => `${exportBaseName(path.basename(input), settings)}.${opts.ext}`));
+  if (!toFile) await mkdir(out, { recursive: true });
+
+  let failed = 0;
+  for (let i = 0; i < inputs.length; i++) {
+    const target = toFile ? out : path.join(out, names[i]);
+    try {
+      const { data, w, h } = await ditherFile(inputs[i], settings, palette, opts);
+      await writeFile(target, data);
+      process.stderr.write(`${inputs[i]} → ${target} (${w}×${h})\n`);
+    } catch (err) {
+      if (!(err instanceof DecodeError) && !(err instanceof Error && "code" in err)) throw err;
+      failed++; // unreadable file: report it, keep going
+      process.stderr.write(`${inputs[i]}: ${err.message}\n`);
+    }
+  }
+  return failed ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => (process.exitCode = code),
+  (err) => {
+    const known = err instanceof UsageError || err instanceof SettingsError || err instanceof PaletteError;
+    process.stderr.write(known ? `dither: ${err.message}\n` : `${err instanceof Error ? err.stack : String(err)}\n`);
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,68 @@
+import { useCallback, useState } from "react";
+
+/**
+ * Undo/redo history over a single immutable value.
+ * -------------------------------------------------------------
+ * Every `set` pushes an entry with a label for the history panel. A set
+ * carrying the same `group` as the current entry within COALESCE_MS
+ * replaces it instead, so a continuous slider drag becomes one step. A set
+ * that changes nothing (compared key by key for objects) is ignored.
+ */
+
+export type HistoryEntry<T> = { value: T; label: string; group?: string; time: number };
+
+const COALESCE_MS = 1000;
+const LIMIT = 100;
+
+type State<T> = { entries: HistoryEntry<T>[]; index: number };
+
+// patches spread into a fresh object, so compare one level down
+function shallowEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((k) => Object.is((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+export function useHistory<T>(initial: () => T, initialLabel = "Initial") {
+  const [state, setState] = useState<State<T>>(() => ({
+    entries: [{ value: initial(), label: initialLabel, time: Date.now() }],
+    index: 0,
+  }));
+
+  const set = useCallback((next: (prev: T) => T, label: string, group?: string) => {
+    setState(({ entries, index }) => {
+      const current = entries[index];
+      const value = next(current.value);
+      if (shallowEqual(value, current.value)) return { entries, index };
+      const now = Date.now();
+      const kept = entries.slice(0, index + 1);
+      const atTip = index === entries.length - 1;
+      if (group && atTip && index > 0 && current.group === group && now - current.time < COALESCE_MS) {
+        kept[index] = { value, label, group, time: now };
+        return { entries: kept, index };
+      }
+      kept.push({ value, label, group, time: now });
+      const overflow = Math.max(0, kept.length - LIMIT);
+      return { entries: kept.slice(overflow), index: kept.length - 1 - overflow };
+    });
+  }, []);
+
+  const jump = useCallback((i: number) => {
+    setState((s) => ({ ...s, index: Math.max(0, Math.min(s.entries.length - 1, i)) }));
+  }, []);
+  const undo = useCallback(() => setState((s) => ({ ...s, index: Math.max(0, s.index - 1) })), []);
+  const redo = useCallback(() => setState((s) => ({ ...s, index: Math.min(s.entries.length - 1, s.index + 1) })), []);
+
+  return {
+    value: state.entries[state.index].value,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    set,
+    undo,
+    redo,
+    jump,
+  };
+}
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Zoom and pan for the preview panes.
+ * -------------------------------------------------------------
+ * The view is either "fit" or a fixed zoom around a centre point given in
+ * image pixels. Every pane bound with `bind` shares it, so a wheel or drag
+ * in one pane moves all of them. Wheel scrolls pan; Ctrl/⌘ + wheel (and
+ * trackpad pinch) zoom around the cursor.
+ */
+
+export const ZOOM_STEPS = [0.25, 0.5, 1, 2, 4, 8, 16, 32];
+
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 32;
+
+type Size = { w: number; h: number };
+type View = { zoom: "fit" } | { zoom: number; cx: number; cy: number };
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+// effective scale and centre of a view
+function resolve(view: View, image: Size, viewport: Size) {
+  if (view.zoom !== "fit") return { scale: view.zoom, cx: view.cx, cy: view.cy };
+  const scale = viewport.w && viewport.h ? Math.min(viewport.w / image.w, viewport.h / image.h) : 1;
+  return { scale, cx: image.w / 2, cy: image.h / 2 };
+}
+
+export function useZoomPan(image: Size | null) {
+  const [view, setView] = useState<View>({ zoom: "fit" });
+  const [viewport, setViewport] = useState<Size>({ w: 0, h: 0 });
+  const size = image ?? { w: 1, h: 1 };
+  const { scale, cx, cy } = resolve(view, size, viewport);
+
+  // handlers registered once read the latest sizes from here
+  const sizesRef = useRef({ image: size, viewport });
+  useEffect(() => {
+    sizesRef.current = { image: size, viewport };
+  });
+
+  // a new image size starts from fit again
+  useEffect(() => setView({ zoom: "fit" }), [size.w, size.h]);
+
+  /** Zooms to `zoom`, keeping the image point under `anchor` (pane pixels, default centre) in place. */
+  const zoomTo = useCallback((zoom: number | "fit" | ((scale: number) => number), anchor?: { x: number; y: number }) => {
+    if (zoom === "fit") return setView({ zoom: "fit" });
+    setView((prev) => {
+      const { image, viewport } = sizesRef.current;
+      const cur = resolve(prev, image, viewport);
+      const next = clamp(typeof zoom === "function" ? zoom(cur.scale) : zoom, MIN_ZOOM, MAX_ZOOM);
+      const ax = (anchor?.x ?? viewport.w / 2) - viewport.w / 2;
+      const ay = (anchor?.y ?? viewport.h / 2) - viewport.h / 2;
+      return {
+        zoom: next,
+        cx: clamp(cur.cx + ax / cur.scale - ax / next, 0, image.w),
+        cy: clamp(cur.cy + ay / cur.scale - ay / next, 0, image.h),
+      };
+    });
+  }, []);
+
+  /** Moves the image by `dx`, `dy` screen pixels; the centre stays on the image. */
+  const panBy = useCallback((dx: number, dy: number) => {
+    setView((prev) => {
+      const { image, viewport } = sizesRef.current;
+      const cur = resolve(prev, image, viewport);
+      return {
+        zoom: cur.scale,
+        cx: clamp(cur.cx - dx / cur.scale, 0, image.w),
+        cy: clamp(cur.cy - dy / cur.scale, 0, image.h),
+      };
+    });
+  }, []);
+
+  // One observer and wheel listener per bound pane. Wheel listeners are
+  // added natively because React's are passive and can't stop page scroll.
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const bind = useCallback(
+    (el: HTMLElement | null) => {
+      if (!el) return;
+      observerRef.current ??= new ResizeObserver(([entry]) =>
+        setViewport({ w: entry.contentRect.width, h: entry.contentRect.height })
+      );
+      const observer = observerRef.current;
+      observer.observe(el);
+      const onWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        if (e.ctrlKey || e.metaKey) {
+          const rect = el.getBoundingClientRect();
+          zoomTo((s) => s * 2 ** (-e.deltaY / 300), { x: e.clientX - rect.left, y: e.clientY - rect.top });
+        } else {
+          panBy(-e.deltaX, -e.deltaY);
+        }
+      };
+      el.addEventListener("wheel", onWheel, { passive: false });
+      return () => {
+        observer.unobserve(el);
+        el.removeEventListener("wheel", onWheel);
+      };
+    },
+    [zoomTo, panBy]
+  );
+
+  // drag to pan; spread onto each pane
+  const dragRef = useRef<{ id: number; x: number; y: number } | null>(null);
+  const dragHandlers = {
+    onPointerDown: (e: React.PointerEvent) => {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      dragRef.current = { id: e.pointerId, x: e.clientX, y: e.clientY };
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const drag = dragRef.current;
+      if (!drag || drag.id !== e.pointerId) return;
+      panBy(e.clientX - drag.x, e.clientY - drag.y);
+      dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+    },
+    onPointerUp: () => (dragRef.current = null),
+    onPointerCancel: () => (dragRef.current = null),
+  };
+
+  return {
+    zoom: view.zoom,
+    scale,
+    // image top-left within a pane
+    x: viewport.w / 2 - cx * scale,
+    y: viewport.h / 2 - cy * scale,
+    zoomTo,
+    panBy,
+    bind,
+    dragHandlers,
+    isDragging: () => dragRef.current !== null,
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { cIdentifier, encodeBMP1, encodeCHeader, encodePBM, encodeXBM, maskToBits, packBits } from "./bitmap";
+
+// a 10×9 frame: the border set, the inside clear; wide and tall enough to
+// spill into a second byte and a second page
+const W = 10;
+const H = 9;
+const frame = Array.from({ length: W * H }, (_, p) => {
+  const x = p % W;
+  const y = Math.floor(p / W);
+  return x === 0 || y === 0 || x === W - 1 || y === H - 1 ? 1 : 0;
+});
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("maskToBits", () => {
+  it("marks the darker half of the palette as ink", () => {
+    expect(Array.from(maskToBits([0, 1, 2, 3], ["#000000", "#ffffff", "#333333", "#cccccc"]))).toEqual([1, 0, 1, 0]);
+  });
+
+  it("swaps ink and paper when inverted", () => {
+    expect(Array.from(maskToBits([0, 1], ["#000000", "#ffffff"], true))).toEqual([0, 1]);
+  });
+});
+
+describe("packBits", () => {
+  it("packs rows padded to whole bytes", () => {
+    const bytes = packBits(frame, W, H, { order: "row", msbFirst: true });
+    expect(bytes.length).toBe(2 * H);
+    expect(Array.from(bytes.subarray(0, 4))).toEqual([0xff, 0xc0, 0x80, 0x40]);
+  });
+
+  it("puts the first pixel in the low bit when LSB first", () => {
+    expect(Array.from(packBits(frame, W, H, { order: "row", msbFirst: false }).subarray(2, 4))).toEqual([0x01, 0x02]);
+  });
+
+  it("packs 8-row pages of vertical bytes", () => {
+    const bytes = packBits(frame, W, H, { order: "page", msbFirst: false });
+    expect(bytes.length).toBe(2 * W);
+    expect(Array.from(bytes.subarray(0, 2))).toEqual([0xff, 0x01]); // left edge, then the top row only
+    expect(Array.from(bytes.subarray(W, W + 2))).toEqual([0x01, 0x01]); // the bottom row is bit 0 of page 2
+  });
+
+  it("packs columns padded to whole bytes", () => {
+    const bytes = packBits(frame, W, H, { order: "column", msbFirst: true });
+    expect(bytes.length).toBe(2 * W);
+    expect(Array.from(bytes.subarray(0, 4))).toEqual([0xff, 0x80, 0x80, 0x80]);
+  });
+});
+
+describe("encoders", () => {
+  it("writes ASCII and binary PBM", () => {
+    const ascii = text(encodePBM(frame, W, H, false)).split("\n");
+    expect(ascii.slice(0, 4)).toEqual(["P1", "10 9", "1 1 1 1 1 1 1 1 1 1", "1 0 0 0 0 0 0 0 0 1"]);
+    const binary = encodePBM(frame, W, H, true);
+    expect(text(binary.subarray(0, 8))).toBe("P4\n10 9\n");
+    expect(binary.length).toBe(8 + 2 * H);
+  });
+
+  it("writes XBM with a C-safe name", () => {
+    const xbm = encodeXBM(frame, W, H, "my icon");
+    expect(xbm).toContain("#define my_icon_width 10\n#define my_icon_height 9\n");
+    expect(xbm).toContain("static unsigned char my_icon_bits[] = {\n  0xff, 0x03, 0x01, 0x02,");
+  });
+
+  it("writes a bottom-up 1-bit BMP with paper then ink in the colour table", () => {
+    const bmp = encodeBMP1(frame, W, H, ["#102030", "#f0e0d0"]);
+    const view = new DataView(bmp.buffer);
+    expect(text(bmp.subarray(0, 2))).toBe("BM");
+    expect(view.getUint32(2, true)).toBe(bmp.length);
+    expect([view.getInt32(18, true), view.getInt32(22, true), view.getUint16(28, true)]).toEqual([W, H, 1]);
+    expect(Array.from(bmp.subarray(54, 62))).toEqual([0xd0, 0xe0, 0xf0, 0, 0x30, 0x20, 0x10, 0]);
+    expect(bmp.length).toBe(62 + 4 * H); // rows padded to 4 bytes
+  });
+
+  it("labels C header bits by what 1 means", () => {
+    const pack = { order: "page", msbFirst: false } as const;
+    expect(encodeCHeader(frame, W, H, "logo", pack)).toMatch(/^\/\/ logo: 10x9, 1 bit per pixel \(1 = ink\)\n/);
+    expect(encodeCHeader(frame, W, H, "logo", pack, true)).toMatch(/^\/\/ logo: 10x9, 1 bit per pixel \(1 = paper\)\n/);
+    expect(encodeCHeader(frame, W, H, "logo", pack)).toContain("const uint8_t logo[20] PROGMEM = {");
+  });
+
+  it("turns file names into C identifiers", () => {
+    expect([cIdentifier("sprite-01"), cIdentifier("8ball"), cIdentifier("")]).toEqual(["sprite_01", "_8ball", "image"]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * 1-bit exports for embedded displays
+ * -------------------------------------------------------------
+ * PBM (P1/P4), XBM, 1-bit BMP and bit-packed C arrays, all generated from
+ * the palette-index mask at working resolution. Pixels reduce to one bit:
+ * 1 = ink (the darker half of the palette), 0 = paper, unless inverted.
+ */
+import { toLuma } from "./dither";
+import { hexToRgb, type Palette } from "./palettes";
+
+export const BITMAP_FORMATS = ["PBM (P1)", "PBM (P4)", "XBM", "BMP 1-bit", "C header"] as const;
+
+export type BitmapFormat = typeof BITMAP_FORMATS[number];
+
+/** row: left-to-right rows; page: SSD1306-style 8-row pages of vertical bytes; column: top-to-bottom columns. */
+export type PackOrder = "row" | "page" | "column";
+
+export type PackOptions = {
+  order: PackOrder;
+  msbFirst: boolean;
+};
+
+/** Reduces palette indices to ink bits; colours darker than the palette's mid-luma count as ink. */
+export function maskToBits(indices: ArrayLike<number>, palette: Palette, invert = false): Uint8Array {
+  const lumas = palette.map((c) => toLuma(...hexToRgb(c)));
+  const mid = (Math.min(...lumas) + Math.max(...lumas)) / 2;
+  const ink = lumas.map((l) => (l < mid ? 1 : 0) ^ (invert ? 1 : 0));
+  const bits = new Uint8Array(indices.length);
+  for (let p = 0; p < bits.length; p++) bits[p] = ink[indices[p]];
+  return bits;
+}
+
+/** Darkest and lightest palette colours, used where a format wants an explicit 2-colour table. */
+function inkAndPaper(palette: Palette): [string, string] {
+  const sorted = [...palette].sort((a, b) => toLuma(...hexToRgb(a)) - toLuma(...hexToRgb(b)));
+  return [sorted[0], sorted[sorted.length - 1]];
+}
+
+export function packBits(bits: ArrayLike<number>, w: number, h: number, { order, msbFirst }: PackOptions): Uint8Array {
+  const bit = (i: number) => (msbFirst ? 0x80 >> i : 1 << i);
+  if (order === "row") {
+    const stride = Math.ceil(w / 8);
+    const out = new Uint8Array(stride * h);
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) if (bits[y * w + x]) out[y * stride + (x >> 3)] |= bit(x & 7);
+    }
+    return out;
+  }
+  if (order === "page") {
+    const pages = Math.ceil(h / 8);
+    const out = new Uint8Array(pages * w);
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) if (bits[y * w + x]) out[(y >> 3) * w + x] |= bit(y & 7);
+    }
+    return out;
+  }
+  const stride = Math.ceil(h / 8);
+  const out = new Uint8Array(stride * w);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) if (bits[y * w + x]) out[x * stride + (y >> 3)] |= bit(y & 7);
+  }
+  return out;
+}
+
+export function encodePBM(bits: ArrayLike<number>, w: number, h: number, binary: boolean): Uint8Array {
+  const header = new TextEncoder().encode(`${binary ? "P4" : "P1"}\n${w} ${h}\n`);
+  if (binary) {
+    const body = packBits(bits, w, h, { order: "row", msbFirst: true });
+    const out = new Uint8Array(header.length + body.length);
+    out.set(header);
+    out.set(body, header.length);
+    return out;
+  }
+  // P1: one digit per pixel, lines kept under 70 characters
+  const lines: string[] = [];
+  for (let y = 0; y < h; y++) {
+    for (let x0 = 0; x0 < w; x0 += 34) {
+      const cells: string[] = [];
+      for (let x = x0; x < Math.min(w, x0 + 34); x++) cells.push(bits[y * w + x] ? "1" : "0");
+      lines.push(cells.join(" "));
+    }
+  }
+  return new TextEncoder().encode(`P1\n${w} ${h}\n${lines.join("\n")}\n`);
+}
+
+function hexBytes(bytes: Uint8Array, perLine: number, indent = "  "): string {
+  const lines: string[] = [];
+  for (let i = 0; i < bytes.length; i += perLine) {
+    lines.push(indent + Array.from(bytes.subarray(i, i + perLine), (b) => "0x" + b.toString(16).padStart(2, "0")).join(", "));
+  }
+  return lines.join(",\n");
+}
+
+/** Turns a file name into a C identifier. */
+export function cIdentifier(name: string): string {
+  const id = name.replace(/[^A-Za-z0-9_]/g, "_");
+  return /^[0-9]/.test(id) ? "_" + id : id || "image";
+}
+
+export function encodeXBM(bits: ArrayLike<number>, w: number, h: number, name: string): string {
+  const id = cIdentifier(name);
+  const bytes = packBits(bits, w, h, { order: "row", msbFirst: false });
+  return `#define ${id}_width ${w}\n#define ${id}_height ${h}\nstatic unsigned char ${id}_bits[] = {\n${hexBytes(bytes, 12)}\n};\n`;
+}
+
+export function encodeBMP1(bits: ArrayLike<number>, w: number, h: number, palette: Palette): Uint8Array {
+  const stride = Math.ceil(w / 32) * 4; // rows padded to 4 bytes
+  const dataOffset = 14 + 40 + 8;
+  const size = dataOffset + stride * h;
+  const out = new Uint8Array(size);
+  const v = new DataView(out.buffer);
+  // BITMAPFILEHEADER
+  out[0] = 0x42;
+  out[1] = 0x4d;
+  v.setUint32(2, size, true);
+  v.setUint32(10, dataOffset, true);
+  // BITMAPINFOHEADER
+  v.setUint32(14, 40, true);
+  v.setInt32(18, w, true);
+  v.setInt32(22, h, true); // positive = bottom-up rows
+  v.setUint16(26, 1, true);
+  v.setUint16(28, 1, true);
+  v.setUint32(34, stride * h, true);
+  v.setInt32(38, 2835, true); // 72 dpi
+  v.setInt32(42, 2835, true);
+  v.setUint32(46, 2, true);
+  // colour table: 0 = paper, 1 = ink (BGRA)
+  const [ink, paper] = inkAndPaper(palette);
+  [paper, ink].forEach((c, k) => {
+    const [r, g, b] = hexToRgb(c);
+    out.set([b, g, r, 0], 54 + k * 4);
+  });
+  for (let y = 0; y < h; y++) {
+    const row = dataOffset + (h - 1 - y) * stride;
+    for (let x = 0; x < w; x++) if (bits[y * w + x]) out[row + (x >> 3)] |= 0x80 >> (x & 7);
+  }
+  return out;
+}
+
+/** `inverted` says the bits came from `maskToBits(…, true)`; it only changes the header comment. */
+export function encodeCHeader(bits: ArrayLike<number>, w: number, h: number, name: string, pack: PackOptions, inverted = false): string {
+  const id = cIdentifier(name);
+  const bytes = packBits(bits, w, h, pack);
+  const layout =
+    pack.order === "row" ? "row-major, rows padded to bytes" : pack.order === "page" ? "8-row pages, one byte per column" : "column-major, columns padded to bytes";
+  return [
+    `// ${id}: ${w}x${h}, 1 bit per pixel (1 = ${inverted ? "paper" : "ink"})`,
+    `// ${layout}, ${pack.msbFirst ? "MSB" : "LSB"} first`,
+    "#pragma once",
+    "#include <stdint.h>",
+    "#ifdef __AVR__",
+    "#include <avr/pgmspace.h>",
+    "#else",
+    "#define PROGMEM",
+    "#endif",
+    "",
+    `#define ${id.toUpperCase()}_WIDTH ${w}`,
+    `#define ${id.toUpperCase()}_HEIGHT ${h}`,
+    "",
+    `const uint8_t ${id}[${bytes.length}] PROGMEM = {`,
+    hexBytes(bytes, 16),
+    "};",
+    "",
+  ].join("\n");
+}
+
+/** Encodes to the chosen format; returns the file body and extension. */
+export function encodeBitmap(
+  format: BitmapFormat,
+  bits: ArrayLike<number>,
+  w: number,
+  h: number,
+  name: string,
+  palette: Palette,
+  pack: PackOptions,
+  inverted = false
+): { data: Uint8Array | string; ext: string; type: string } {
+  switch (format) {
+    case "PBM (P1)":
+      return { data: encodePBM(bits, w, h, false), ext: "pbm", type: "image/x-portable-bitmap" };
+    case "PBM (P4)":
+      return { data: encodePBM(bits, w, h, true), ext: "pbm", type: "image/x-portable-bitmap" };
+    case "XBM":
+      return { data: encodeXBM(bits, w, h, name), ext: "xbm", type: "image/x-xbitmap" };
+    case "BMP 1-bit":
+      return { data: encodeBMP1(bits, w, h, palette), ext: "bmp", type: "image/bmp" };
+    case "C header":
+      return { data: encodeCHeader(bits, w, h, name, pack, inverted), ext: "h", type: "text/x-c" };
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Blue-noise threshold maps
+ * -------------------------------------------------------------
+ * Ulichney's void-and-cluster method on a toroidal grid. The result is a
+ * size×size map of thresholds in [0,1) that tiles seamlessly and is used
+ * like a (very large) Bayer matrix. Generation is deterministic and each
+ * size is built once per thread and cached: the 128 map takes over a
+ * second, so the cache lives as long as the dither worker does.
+ */
+import { mulberry32 } from "./prng";
+
+export const BLUE_NOISE_SIZES = [16, 32, 64, 128];
+
+const SIGMA = 1.5;
+const RADIUS = 6; // ~4σ; contributions beyond this are negligible
+const cache = new Map<number, Float32Array>();
+
+export function blueNoise(size: number): Float32Array {
+  let map = cache.get(size);
+  if (!map) {
+    map = voidAndCluster(size);
+    cache.set(size, map);
+  }
+  return map;
+}
+
+function voidAndCluster(size: number): Float32Array {
+  const n = size * size;
+  const pattern = new Uint8Array(n);
+  const energy = new Float64Array(n);
+  const ranks = new Uint32Array(n);
+
+  // Gaussian weights over the (wrapped) window around a pixel
+  const span = Math.min(RADIUS, Math.floor((size - 1) / 2));
+  const weights: number[] = [];
+  for (let dy = -span; dy <= span; dy++) {
+    for (let dx = -span; dx <= span; dx++) {
+      weights.push(Math.exp(-(dx * dx + dy * dy) / (2 * SIGMA * SIGMA)));
+    }
+  }
+  const splat = (p: number, sign: number) => {
+    const px = p % size;
+    const py = (p - px) / size;
+    let k = 0;
+    for (let dy = -span; dy <= span; dy++) {
+      const row = ((py + dy + size) % size) * size;
+      for (let dx = -span; dx <= span; dx++) {
+        energy[row + ((px + dx + size) % size)] += sign * weights[k++];
+      }
+    }
+  };
+  const set = (p: number, v: 0 | 1) => {
+    pattern[p] = v;
+    splat(p, v ? 1 : -1);
+  };
+  // tightest cluster: the 1 with the most energy; largest void: the 0 with the least
+  const tightestCluster = () => {
+    let best = -1;
+    let bestE = -Infinity;
+    for (let p = 0; p < n; p++) {
+      const e = energy[p];
+      if (e > bestE && pattern[p]) {
+        bestE = e;
+        best = p;
+      }
+    }
+    return best;
+  };
+  const largestVoid = () => {
+    let best = -1;
+    let bestE = Infinity;
+    for (let p = 0; p < n; p++) {
+      const e = energy[p];
+      if (e < bestE && !pattern[p]) {
+        bestE = e;
+        best = p;
+      }
+    }
+    return best;
+  };
+
+  // initial pattern: ~10% minority pixels from a fixed-seed generator
+  const random = mulberry32(0x9e3779b9);
+  const initial = Math.max(1, Math.round(n / 10));
+  for (let placed = 0; placed < initial; ) {
+    const p = Math.floor(random() * n);
+    if (!pattern[p]) {
+      set(p, 1);
+      placed++;
+    }
+  }
+
+  // relax until moving the tightest cluster would land it where it came from
+  for (let guard = 0; guard < n; guard++) {
+    const c = tightestCluster();
+    set(c, 0);
+    const v = largestVoid();
+    set(v, 1);
+    if (v === c) break;
+  }
+  const prototype = pattern.slice();
+  const protoEnergy = energy.slice();
+
+  // phase 1: peel clusters off the prototype, ranking downwards
+  for (let rank = initial - 1; rank >= 0; rank--) {
+    const c = tightestCluster();
+    set(c, 0);
+    ranks[c] = rank;
+  }
+
+  // phases 2 + 3: fill voids from the prototype upwards. Past half-full the
+  // tightest cluster of 0s is the 0 with the least 1-energy, so one loop serves both.
+  pattern.set(prototype);
+  energy.set(protoEnergy);
+  for (let rank = initial; rank < n; rank++) {
+    const v = largestVoid();
+    set(v, 1);
+    ranks[v] = rank;
+  }
+
+  const map = new Float32Array(n);
+  for (let p = 0; p < n; p++) map[p] = (ranks[p] + 0.5) / n;
+  return map;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { COMPARE_AXES, compareCells, isSweep, matchesPatch } from "./compare";
+import { ALGORITHMS } from "./dither";
+import { DEFAULT_SETTINGS, parseSettings } from "./settings";
+
+describe("compareCells", () => {
+  it("has one cell per algorithm or palette", () => {
+    expect(compareCells("Algorithm", [], 5).map((c) => c.patch)).toEqual(ALGORITHMS.map((algorithm) => ({ algorithm })));
+    expect(compareCells("Palette", ["Game Boy", "Mine"], 5)).toEqual([
+      { label: "Game Boy", patch: { paletteKey: "Game Boy" } },
+      { label: "Mine", patch: { paletteKey: "Mine" } },
+    ]);
+  });
+
+  it("sweeps evenly from end to end of the range", () => {
+    expect(compareCells("Gamma", [], 4)).toEqual([
+      { label: "Gamma 0.4", patch: { gamma: 0.4 } },
+      { label: "Gamma 1", patch: { gamma: 1 } },
+      { label: "Gamma 1.6", patch: { gamma: 1.6 } },
+      { label: "Gamma 2.2", patch: { gamma: 2.2 } },
+    ]);
+    expect(compareCells("Brightness", [], 1)).toEqual([{ label: "Brightness -60", patch: { brightness: -60 } }]);
+  });
+
+  it("switches to the Threshold algorithm for a threshold sweep", () => {
+    expect(compareCells("Threshold", [], 3).map((c) => c.patch)).toEqual([
+      { algorithm: "Threshold", threshold: 32 },
+      { algorithm: "Threshold", threshold: 128 },
+      { algorithm: "Threshold", threshold: 224 },
+    ]);
+  });
+
+  it("only calls the numeric axes sweeps", () => {
+    expect(COMPARE_AXES.filter(isSweep)).toEqual(["Threshold", "Gamma", "Brightness", "Contrast", "Error strength"]);
+  });
+});
+
+describe("matchesPatch", () => {
+  it("marks the cell a click applied, and only that one", () => {
+    const cells = compareCells("Error strength", [], 6);
+    const applied = parseSettings({ ...DEFAULT_SETTINGS, ...cells[2].patch });
+    expect(cells.map((c) => matchesPatch(applied, c.patch))).toEqual([false, false, true, false, false, false]);
+  });
+
+  it("needs every value of the patch", () => {
+    const settings = { ...DEFAULT_SETTINGS, threshold: 128 };
+    expect(matchesPatch(settings, { threshold: 128 })).toBe(true);
+    expect(matchesPatch(settings, { algorithm: "Threshold", threshold: 128 })).toBe(false);
+    expect(matchesPatch(settings, {})).toBe(true);
+  });
+});
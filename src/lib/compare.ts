@@ -0,0 +1,89 @@
+/**
+ * Comparison sheets
+ * -------------------------------------------------------------
+ * Cells of the Compare view: one settings patch per thumbnail, covering
+ * every algorithm, every palette or an even sweep of one numeric setting.
+ * Rendered cells are laid out as a single labelled image for export.
+ */
+import { ALGORITHMS, indicesToRgba } from "./dither";
+import type { Palette } from "./palettes";
+import { SETTING_LABELS, type EditorSettings } from "./settings";
+
+export const COMPARE_AXES = ["Algorithm", "Palette", "Threshold", "Gamma", "Brightness", "Contrast", "Error strength"] as const;
+
+export type CompareAxis = typeof COMPARE_AXES[number];
+
+export type CompareCell = { label: string; patch: Partial<EditorSettings> };
+
+type SweepKey = "threshold" | "gamma" | "brightness" | "contrast" | "errorStrength";
+
+// sweep ranges stay inside the useful part of each slider
+const SWEEPS: Record<Exclude<CompareAxis, "Algorithm" | "Palette">, { key: SweepKey; min: number; max: number; digits: number }> = {
+  Threshold: { key: "threshold", min: 32, max: 224, digits: 0 },
+  Gamma: { key: "gamma", min: 0.4, max: 2.2, digits: 2 },
+  Brightness: { key: "brightness", min: -60, max: 60, digits: 0 },
+  Contrast: { key: "contrast", min: -60, max: 60, digits: 0 },
+  "Error strength": { key: "errorStrength", min: 25, max: 150, digits: 0 },
+};
+
+export function isSweep(axis: CompareAxis): boolean {
+  return axis in SWEEPS;
+}
+
+/** The cells for `axis`; sweeps take `steps` evenly spaced values. */
+export function compareCells(axis: CompareAxis, paletteKeys: string[], steps: number): CompareCell[] {
+  if (axis === "Algorithm") return ALGORITHMS.map((algorithm) => ({ label: algorithm, patch: { algorithm } }));
+  if (axis === "Palette") return paletteKeys.map((paletteKey) => ({ label: paletteKey, patch: { paletteKey } }));
+  const { key, min, max, digits } = SWEEPS[axis];
+  return Array.from({ length: steps }, (_, i) => {
+    const value = Number((min + ((max - min) * i) / Math.max(1, steps - 1)).toFixed(digits));
+    // the threshold only means something to the Threshold algorithm
+    const patch: Partial<EditorSettings> = key === "threshold" ? { algorithm: "Threshold", threshold: value } : { [key]: value };
+    return { label: `${SETTING_LABELS[key]} ${value}`, patch };
+  });
+}
+
+/** Whether `settings` already has every value in `patch`. */
+export function matchesPatch(settings: EditorSettings, patch: Partial<EditorSettings>): boolean {
+  return Object.entries(patch).every(([key, value]) => settings[key as keyof EditorSettings] === value);
+}
+
+export type SheetCell = { label: string; mask: Uint8Array; w: number; h: number; palette: Palette };
+
+const SHEET_PAD = 16;
+const LABEL_HEIGHT = 24;
+const TITLE_HEIGHT = 32;
+
+/**
+ * Lays cells out on a near-square grid, each at `pixelSize` with its label
+ * underneath and `title` across the top, on the editor's dark background.
+ */
+export function renderSheet(cells: SheetCell[], pixelSize: number, title: string): HTMLCanvasElement {
+  const columns = Math.ceil(Math.sqrt(cells.length));
+  const rows = Math.ceil(cells.length / columns);
+  const cellW = Math.max(...cells.map((c) => c.w)) * pixelSize;
+  const cellH = Math.max(...cells.map((c) => c.h)) * pixelSize;
+  const canvas = document.createElement("canvas");
+  canvas.width = SHEET_PAD + columns * (cellW + SHEET_PAD);
+  canvas.height = TITLE_HEIGHT + SHEET_PAD + rows * (cellH + LABEL_HEIGHT + SHEET_PAD);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is not available");
+
+  ctx.fillStyle = "#09090b";
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = "#f4f4f5";
+  ctx.font = "600 14px system-ui, sans-serif";
+  ctx.fillText(title, SHEET_PAD, SHEET_PAD + TITLE_HEIGHT / 2 - 4);
+
+  ctx.font = "12px system-ui, sans-serif";
+  ctx.fillStyle = "#a1a1aa";
+  cells.forEach((cell, i) => {
+    const x = SHEET_PAD + (i % columns) * (cellW + SHEET_PAD);
+    const y = TITLE_HEIGHT + SHEET_PAD + Math.floor(i / columns) * (cellH + LABEL_HEIGHT + SHEET_PAD);
+    const rgba = indicesToRgba(cell.mask, cell.w, cell.h, cell.palette, pixelSize);
+    ctx.putImageData(new ImageData(rgba, cell.w * pixelSize, cell.h * pixelSize), x, y);
+    ctx.fillText(cell.label, x, y + cellH + LABEL_HEIGHT / 2, cellW);
+  });
+  return canvas;
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { encodePalette, PALETTE_FORMATS, PaletteError, parsePaletteFile, type PaletteFormat } from "./customPalettes";
+
+const palette = { name: "Sunset", colors: ["#000000", "#ff8000", "#12abef", "#ffffff"] };
+
+function file(format: PaletteFormat): { name: string; buffer: ArrayBuffer } {
+  const { data, ext } = encodePalette(format, palette);
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  return { name: `Sunset.${ext}`, buffer: bytes.slice().buffer };
+}
+
+const text = (s: string) => new TextEncoder().encode(s).buffer;
+
+describe("palette files", () => {
+  it.each(PALETTE_FORMATS)("round-trips %s", (format) => {
+    const { name, buffer } = file(format);
+    expect(parsePaletteFile(name, buffer)).toEqual(palette);
+  });
+
+  it("reads the name from a GIMP palette over the file name", () => {
+    expect(parsePaletteFile("x.gpl", text("GIMP Palette\nName: Dusk\n#\n0 0 0\n255 255 255 White\n"))).toEqual({
+      name: "Dusk",
+      colors: ["#000000", "#ffffff"],
+    });
+  });
+
+  it("rejects out-of-range GIMP channels", () => {
+    expect(() => parsePaletteFile("x.gpl", text("GIMP Palette\n0 0 0\n300 0 0\n"))).toThrow(PaletteError);
+  });
+
+  it("drops alpha from CSS colours and expands short hex", () => {
+    expect(parsePaletteFile("x.css", text("a { color: #fff; } b { color: #11223344; }")).colors).toEqual(["#ffffff", "#112233"]);
+  });
+
+  it("rejects files without enough colours", () => {
+    expect(() => parsePaletteFile("x.hex", text("nothing here\n"))).toThrow(new PaletteError("No colours found in palette file"));
+    expect(() => parsePaletteFile("x.hex", text("ff0000\n"))).toThrow(PaletteError);
+  });
+
+  it("rejects truncated and malformed .ase files", () => {
+    const bytes = new Uint8Array(file("Adobe (.ase)").buffer);
+    expect(() => parsePaletteFile("x.ase", Uint8Array.from([...bytes.subarray(0, 4), 0, 1]).buffer)).toThrow(new PaletteError("Malformed .ase file"));
+    for (const end of [20, 40, bytes.length - 8]) {
+      expect(() => parsePaletteFile("x.ase", bytes.slice(0, end).buffer)).toThrow(new PaletteError("Malformed .ase file"));
+    }
+    // a colour block whose declared length is shorter than its channels
+    const lying = bytes.slice();
+    const first = 12 + 6 + new DataView(lying.buffer).getUint32(14);
+    new DataView(lying.buffer).setUint32(first + 2, 12);
+    expect(() => parsePaletteFile("x.ase", lying.buffer)).toThrow(new PaletteError("Malformed .ase file"));
+  });
+});
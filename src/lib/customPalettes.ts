@@ -0,0 +1,229 @@
+/**
+ * Custom palettes
+ * -------------------------------------------------------------
+ * User palettes live in localStorage next to the built-in `PALETTES` and
+ * are addressed by name from `EditorSettings.paletteKey`. Palette files
+ * are read and written in the common interchange formats: GIMP .gpl,
+ * Lospec .hex, Adobe .ase (RGB, Gray, CMYK and LAB swatches) and plain
+ * CSS hex lists.
+ */
+import { hexToRgb, PALETTES, rgbToHex, type Palette } from "./palettes";
+
+export type CustomPalette = { name: string; colors: Palette };
+
+export const MAX_PALETTE_COLORS = 256; // indexed PNG / GIF colour table limit
+
+export const PALETTE_FORMATS = ["GIMP (.gpl)", "Lospec (.hex)", "Adobe (.ase)", "CSS hex"] as const;
+
+export type PaletteFormat = typeof PALETTE_FORMATS[number];
+
+export class PaletteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaletteError";
+  }
+}
+
+/** Looks a palette up by name, custom palettes first; null when unknown. */
+export function findPalette(key: string, custom: CustomPalette[]): Palette | null {
+  return custom.find((p) => p.name === key)?.colors ?? PALETTES[key] ?? null;
+}
+
+/** A name not taken by a built-in or another custom palette. */
+export function uniquePaletteName(name: string, custom: CustomPalette[], except?: string): string {
+  const taken = (n: string) => n in PALETTES || custom.some((p) => p.name === n && p.name !== except);
+  const base = name.trim() || "Custom";
+  if (!taken(base)) return base;
+  let i = 2;
+  while (taken(`${base} ${i}`)) i++;
+  return `${base} ${i}`;
+}
+
+function checkSize(colors: Palette): Palette {
+  if (colors.length < 2) throw new PaletteError("A palette needs at least two colours");
+  if (colors.length > MAX_PALETTE_COLORS) throw new PaletteError(`Palette has ${colors.length} colours; at most ${MAX_PALETTE_COLORS} are supported`);
+  return colors;
+}
+
+// ---------- Storage ----------
+const STORAGE_KEY = "dithering-editor.palettes";
+
+export function loadUserPalettes(): CustomPalette[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .filter((p) => typeof p?.name === "string" && Array.isArray(p.colors))
+      .map((p) => ({ name: p.name, colors: p.colors.filter((c: unknown) => typeof c === "string").map((c: string) => rgbToHex(hexToRgb(c))) }))
+      .filter((p) => p.colors.length >= 2);
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserPalettes(palettes: CustomPalette[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(palettes));
+  } catch {
+    // storage full or disabled: palettes stay in memory for this session
+  }
+}
+
+// ---------- Text formats ----------
+function parseGpl(text: string, fallbackName: string): CustomPalette {
+  let name = fallbackName;
+  const colors: Palette = [];
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    const meta = /^Name:\s*(.+)$/.exec(line);
+    if (meta) {
+      name = meta[1].trim();
+      continue;
+    }
+    const m = /^\s*(\d+)\s+(\d+)\s+(\d+)/.exec(line);
+    if (!m) continue;
+    const rgb: [number, number, number] = [+m[1], +m[2], +m[3]];
+    if (rgb.some((c) => c > 255)) throw new PaletteError(`Colour values must be 0–255: "${line.trim()}"`);
+    colors.push(rgbToHex(rgb));
+  }
+  return { name, colors };
+}
+
+// "#rgb", "#rrggbb" and "#rrggbbaa" tokens anywhere (CSS); otherwise bare "rrggbb" lines (Lospec)
+function parseHexList(text: string, name: string): CustomPalette {
+  const tokens = text.match(/#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3})\b/gi);
+  const hexes = tokens ?? text.split(/\r?\n/).map((l) => l.trim()).filter((l) => /^[0-9a-f]{6}$/i.test(l));
+  return { name, colors: hexes.map((h) => rgbToHex(hexToRgb(h.slice(0, h.length === 9 ? 7 : undefined)))) };
+}
+
+// ---------- ASE ----------
+const clamp255 = (v: number) => Math.max(0, Math.min(255, Math.round(v)));
+
+// CIE L*a*b* (D50, as Adobe stores it) to sRGB
+function labToRgb(l: number, a: number, b: number): [number, number, number] {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const f = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787);
+  const [x, y, z] = [0.9642 * f(fx), f(fy), 0.8249 * f(fz)];
+  // Bradford-adapted XYZ(D50) -> linear sRGB
+  const lin = [
+    3.1338561 * x - 1.6168667 * y - 0.4906146 * z,
+    -0.9787684 * x + 1.9161415 * y + 0.033454 * z,
+    0.0719453 * x - 0.2289914 * y + 1.4052427 * z,
+  ];
+  const gamma = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+  return lin.map((c) => clamp255(gamma(Math.max(0, c)) * 255)) as [number, number, number];
+}
+
+function parseAse(bytes: Uint8Array, fallbackName: string): CustomPalette {
+  const v = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // every read is checked against the end of its block (or the file), so
+  // truncated files and bogus lengths fail cleanly instead of reading past them
+  const need = (end: number, limit = bytes.length) => {
+    if (end > limit) throw new PaletteError("Malformed .ase file");
+  };
+  need(12);
+  const count = v.getUint32(8);
+  let name = fallbackName;
+  const colors: Palette = [];
+  let p = 12;
+  const readName = (at: number, limit: number) => {
+    need(at + 2, limit);
+    const len = v.getUint16(at); // UTF-16 code units including the terminator
+    const end = at + 2 + len * 2;
+    need(end, limit);
+    let s = "";
+    for (let i = 0; i < len - 1; i++) s += String.fromCharCode(v.getUint16(at + 2 + i * 2));
+    return { s, end };
+  };
+  for (let i = 0; i < count; i++) {
+    need(p + 6);
+    const type = v.getUint16(p);
+    const length = v.getUint32(p + 2);
+    const body = p + 6;
+    need(body + length);
+    if (type === 0xc001) {
+      if (name === fallbackName) name = readName(body, body + length).s || name;
+    } else if (type === 0x0001) {
+      let at = readName(body, body + length).end;
+      need(at + 4, body + length);
+      const model = String.fromCharCode(...bytes.subarray(at, at + 4));
+      at += 4;
+      const f = (k: number) => {
+        need(at + k * 4 + 4, body + length);
+        return v.getFloat32(at + k * 4);
+      };
+      if (model === "RGB ") colors.push(rgbToHex([clamp255(f(0) * 255), clamp255(f(1) * 255), clamp255(f(2) * 255)]));
+      else if (model === "Gray") colors.push(rgbToHex([clamp255(f(0) * 255), clamp255(f(0) * 255), clamp255(f(0) * 255)]));
+      else if (model === "CMYK") {
+        const k = 1 - f(3);
+        colors.push(rgbToHex([clamp255(255 * (1 - f(0)) * k), clamp255(255 * (1 - f(1)) * k), clamp255(255 * (1 - f(2)) * k)]));
+      } else if (model === "LAB ") colors.push(rgbToHex(labToRgb(f(0) * 100, f(1), f(2))));
+    }
+    p = body + length;
+  }
+  return { name, colors };
+}
+
+function encodeAse(name: string, colors: Palette): Uint8Array {
+  const utf16 = (s: string) => [...s].map((c) => c.charCodeAt(0) & 0xffff);
+  const blocks: number[][] = [];
+  const u16 = (n: number) => [(n >> 8) & 255, n & 255];
+  const u32 = (n: number) => [(n >>> 24) & 255, (n >> 16) & 255, (n >> 8) & 255, n & 255];
+  const f32 = (n: number) => {
+    const b = new DataView(new ArrayBuffer(4));
+    b.setFloat32(0, n);
+    return [b.getUint8(0), b.getUint8(1), b.getUint8(2), b.getUint8(3)];
+  };
+  const str = (s: string) => {
+    const units = [...utf16(s), 0];
+    return [...u16(units.length), ...units.flatMap(u16)];
+  };
+  const block = (type: number, body: number[]) => blocks.push([...u16(type), ...u32(body.length), ...body]);
+
+  block(0xc001, str(name));
+  for (const c of colors) {
+    const [r, g, b] = hexToRgb(c);
+    block(0x0001, [...str(c), ...Array.from("RGB ", (ch) => ch.charCodeAt(0)), ...f32(r / 255), ...f32(g / 255), ...f32(b / 255), ...u16(2)]);
+  }
+  block(0xc002, []);
+  return Uint8Array.from([...Array.from("ASEF", (ch) => ch.charCodeAt(0)), ...u16(1), ...u16(0), ...u32(blocks.length), ...blocks.flat()]);
+}
+
+// ---------- Entry points ----------
+/** Reads a palette file, picking the format from its extension or, failing that, its contents. */
+export function parsePaletteFile(fileName: string, buffer: ArrayBuffer): CustomPalette {
+  const bytes = new Uint8Array(buffer);
+  const base = fileName.replace(/\.[^.]+$/, "") || "Imported";
+  let parsed: CustomPalette;
+  if (String.fromCharCode(...bytes.subarray(0, 4)) === "ASEF") {
+    parsed = parseAse(bytes, base);
+  } else {
+    const text = new TextDecoder().decode(bytes);
+    parsed = /^GIMP Palette/.test(text.trimStart()) ? parseGpl(text.trimStart(), base) : parseHexList(text, base);
+  }
+  if (!parsed.colors.length) throw new PaletteError("No colours found in palette file");
+  return { name: parsed.name, colors: checkSize(parsed.colors) };
+}
+
+/** Serialises a palette; returns the file body, extension and MIME type. */
+export function encodePalette(format: PaletteFormat, { name, colors }: CustomPalette): { data: Uint8Array | string; ext: string; type: string } {
+  const plain = colors.map((c) => c.replace(/^#/, ""));
+  switch (format) {
+    case "GIMP (.gpl)": {
+      const rows = colors.map((c) => {
+        const [r, g, b] = hexToRgb(c);
+        return `${String(r).padStart(3)} ${String(g).padStart(3)} ${String(b).padStart(3)}\t${c}`;
+      });
+      return { data: ["GIMP Palette", `Name: ${name}`, `Columns: ${Math.min(16, colors.length)}`, "#", ...rows, ""].join("\n"), ext: "gpl", type: "text/plain" };
+    }
+    case "Lospec (.hex)":
+      return { data: plain.join("\n") + "\n", ext: "hex", type: "text/plain" };
+    case "Adobe (.ase)":
+      return { data: encodeAse(name, colors), ext: "ase", type: "application/octet-stream" };
+    case "CSS hex": {
+      const id = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "palette";
+      return { data: `:root {\n${colors.map((c, i) => `  --${id}-${i + 1}: ${c};`).join("\n")}\n}\n`, ext: "css", type: "text/css" };
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { ALGORITHMS, dither, quantize, type Algorithm, type DitherSettings } from "./dither";
+import { parseKernel } from "./kernels";
+import { DEFAULT_SETTINGS } from "./settings";
+
+const W = 16;
+const H = 8;
+
+function look(algorithm: Algorithm, patch: Partial<DitherSettings> = {}): DitherSettings {
+  return { ...DEFAULT_SETTINGS, customKernel: parseKernel(DEFAULT_SETTINGS.customKernelText), algorithm, ...patch };
+}
+
+// left-to-right ramp from black to white, the same on every row
+function gradient(): Float32Array {
+  return Float32Array.from({ length: W * H }, (_, p) => Math.round(((p % W) * 255) / (W - 1)));
+}
+
+function solid(v: number): Float32Array {
+  return new Float32Array(W * H).fill(v);
+}
+
+function toRgba(gray: ArrayLike<number>): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(gray.length * 4);
+  for (let p = 0; p < gray.length; p++) rgba.set([gray[p], gray[p], gray[p], 255], p * 4);
+  return rgba;
+}
+
+// one string per row, so a snapshot diff shows where the pattern moved
+function rows(mask: Uint8Array, w = W): string[] {
+  return Array.from({ length: mask.length / w }, (_, y) => Array.from(mask.subarray(y * w, (y + 1) * w)).join(""));
+}
+
+describe("dither", () => {
+  it.each(ALGORITHMS)("%s on a gradient", (algorithm) => {
+    expect(rows(dither(gradient(), W, H, look(algorithm)))).toMatchSnapshot();
+  });
+
+  it.each(ALGORITHMS)("%s on a mid-gray field", (algorithm) => {
+    expect(rows(dither(solid(128), W, H, look(algorithm)))).toMatchSnapshot();
+  });
+
+  it.each(ALGORITHMS)("%s leaves black and white fields solid", (algorithm) => {
+    expect(dither(solid(0), W, H, look(algorithm)).every((v) => v === 0)).toBe(true);
+    expect(dither(solid(255), W, H, look(algorithm)).every((v) => v === 1)).toBe(true);
+  });
+
+  it("is deterministic for a fixed seed", () => {
+    const a = dither(gradient(), W, H, look("Random", { seed: 7 }));
+    const b = dither(gradient(), W, H, look("Random", { seed: 7 }));
+    expect(a).toEqual(b);
+  });
+});
+
+describe("quantize", () => {
+  it.each(ALGORITHMS)("%s with a two-colour palette", (algorithm) => {
+    expect(rows(quantize(toRgba(gradient()), W, H, look(algorithm), ["#000000", "#ffffff"]))).toMatchSnapshot();
+  });
+
+  it("paints the ink (first colour) on the bright side of a two-colour threshold", () => {
+    const mask = quantize(toRgba(gradient()), W, H, look("Threshold"), ["#000000", "#ffffff"]);
+    expect(rows(mask)[0]).toBe("1111111100000000");
+    const inverted = quantize(toRgba(gradient()), W, H, look("Threshold", { invert: true }), ["#000000", "#ffffff"]);
+    expect(rows(inverted)[0]).toBe("0000000011111111");
+  });
+
+  it("maps gray levels onto a longer palette from dark to light, whatever its order", () => {
+    const ramp = ["#ffffff", "#000000", "#aaaaaa", "#555555"];
+    const mask = quantize(toRgba(gradient()), W, H, look("Threshold"), ramp);
+    expect(rows(mask)[0]).toBe("1113333322222000");
+  });
+
+  it("picks the nearest colour in rgb mode", () => {
+    const rgba = new Uint8ClampedArray([250, 10, 10, 255, 10, 10, 240, 255, 20, 230, 20, 255]);
+    const mask = quantize(rgba, 3, 1, look("Threshold", { colorMode: "rgb" }), ["#000000", "#ff0000", "#00ff00", "#0000ff"]);
+    expect(Array.from(mask)).toEqual([1, 3, 2]);
+  });
+
+  it.each(ALGORITHMS)("%s with a four-colour ramp on a mid-gray field", (algorithm) => {
+    const mask = quantize(toRgba(solid(128)), W, H, look(algorithm), ["#000000", "#555555", "#aaaaaa", "#ffffff"]);
+    expect(rows(mask)).toMatchSnapshot();
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Dithering core
+ * -------------------------------------------------------------
+ * Headless, framework-free image pipeline used by the editor:
+ * RGBA -> luma (or RGB) -> tone LUT -> [linear light] -> filters -> palette indices -> paint.
+ *
+ * Everything here works on plain typed arrays so it can run from
+ * scripts, workers or tests without React or the DOM.
+ */
+import { blueNoise } from "./blueNoise";
+import { applyFilters, type FilterStep } from "./filters";
+import { halftoneThreshold, type HalftoneShape } from "./halftone";
+import { DIFFUSION_KERNELS, KERNELS, kernelTaps, type DiffusionKernel, type KernelName, type KernelTap } from "./kernels";
+import { hexToRgb, type Palette, type RGB } from "./palettes";
+import { mulberry32 } from "./prng";
+import { applyLevels, toneCurve, type CurvePoint } from "./tone";
+
+// ---------- Bayer matrices ----------
+export const BAYER_2 = [
+  [0, 2],
+  [3, 1],
+];
+export const BAYER_4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+// A known 8x8 Bayer matrix (0..63)
+export const BAYER_8 = [
+  [0, 48, 12, 60, 3, 51, 15, 63],
+  [32, 16, 44, 28, 35, 19, 47, 31],
+  [8, 56, 4, 52, 11, 59, 7, 55],
+  [40, 24, 36, 20, 43, 27, 39, 23],
+  [2, 50, 14, 62, 1, 49, 13, 61],
+  [34, 18, 46, 30, 33, 17, 45, 29],
+  [10, 58, 6, 54, 9, 57, 5, 53],
+  [42, 26, 38, 22, 41, 25, 37, 21],
+];
+
+// ---------- Types ----------
+export const CUSTOM_KERNEL = "Custom Diffusion";
+
+export const ALGORITHMS = [
+  "Threshold",
+  ...DIFFUSION_KERNELS,
+  CUSTOM_KERNEL,
+  "Ordered Bayer 2x2",
+  "Ordered Bayer 4x4",
+  "Ordered Bayer 8x8",
+  "Blue Noise",
+  "Halftone",
+  "Random",
+] as const;
+
+export type Algorithm = typeof ALGORITHMS[number];
+
+export function isDiffusion(a: Algorithm): a is KernelName | typeof CUSTOM_KERNEL {
+  return a === CUSTOM_KERNEL || (DIFFUSION_KERNELS as readonly string[]).includes(a);
+}
+
+export const DITHER_SIZES = [1, 2, 4, 8, 16, 32];
+
+/** Weights (or, for CIE L*, the lightness curve) used to reduce RGB to one gray value. */
+export const LUMA_MODELS = ["Rec. 709", "Rec. 601", "CIE L*"] as const;
+
+export type LumaModel = typeof LUMA_MODELS[number];
+
+/** How "rgb" mode picks the nearest palette colour: RGB distance or OKLab distance. */
+export const COLOR_METRICS = ["RGB", "Perceptual"] as const;
+
+export type ColorMetric = typeof COLOR_METRICS[number];
+
+export type TonalSettings = {
+  brightness: number; // -100..100
+  contrast: number; // -100..100
+  gamma: number; // 0.2..3
+  invert: boolean;
+  levelsBlack?: number; // 0..255 input black point, defaults to 0
+  levelsWhite?: number; // 0..255 input white point, defaults to 255
+  levelsMid?: number; // mid-tone gamma, defaults to 1
+  toneCurve?: CurvePoint[]; // control points, identity when absent
+  lumaModel?: LumaModel; // defaults to Rec. 709
+  linearLight?: boolean; // dither in linear light instead of gamma-encoded values
+};
+
+export type DitherOptions = {
+  algorithm: Algorithm;
+  threshold: number; // 0..255 (for Threshold algo)
+  seed?: number; // Random algo seed, defaults to 0
+  noiseAmplitude?: number; // Random algo noise, percent of one quantization step, defaults to 100
+  random?: () => number; // [0,1) source overriding the seeded generator
+  frame?: number; // animation frame; when set, ordered maps shift and the Random seed advances per frame
+  blueNoiseSize?: number; // threshold map size for Blue Noise, defaults to 64
+  // Halftone only
+  halftoneShape?: HalftoneShape; // spot function, defaults to Round
+  halftoneCell?: number; // cell size in pixels, defaults to 8
+  halftoneAngle?: number; // screen angle in degrees, defaults to 45
+  // error diffusion only
+  serpentine?: boolean; // alternate scan direction every row
+  errorStrength?: number; // percent of the error to diffuse, defaults to 100
+  customKernel?: DiffusionKernel | null; // used by CUSTOM_KERNEL
+};
+
+/**
+ * "gray" quantizes luma to an N-step ramp painted with the palette sorted
+ * by brightness; "rgb" picks the nearest palette colour per pixel.
+ */
+export type ColorMode = "gray" | "rgb";
+
+export type DitherSettings = TonalSettings &
+  DitherOptions & {
+    colorMode: ColorMode;
+    colorMetric?: ColorMetric;
+    filters?: FilterStep[]; // pre-dither filter stack, run in order
+  };
+
+// ---------- Transfer functions ----------
+// 0..255 in and out. Tonal adjustments always work on encoded values; with
+// linear light the result is decoded before dithering so that error and
+// pattern density add up in physical light, and the palette is decoded the
+// same way for comparison.
+export function srgbToLinear(v: number): number {
+  const x = Math.max(0, Math.min(255, v)) / 255;
+  return 255 * (x <= 0.04045 ? x / 12.92 : ((x + 0.055) / 1.055) ** 2.4);
+}
+
+export function linearToSrgb(v: number): number {
+  const x = Math.max(0, Math.min(255, v)) / 255;
+  return 255 * (x <= 0.0031308 ? 12.92 * x : 1.055 * x ** (1 / 2.4) - 0.055);
+}
+
+// CIE L* (scaled to 0..255) from relative luminance (0..255) and back
+function lightness(y: number): number {
+  const t = Math.max(0, y) / 255;
+  return 2.55 * (t > 216 / 24389 ? 116 * Math.cbrt(t) - 16 : (24389 / 27) * t);
+}
+
+function inverseLightness(l: number): number {
+  const L = (Math.max(0, Math.min(255, l)) / 2.55 + 16) / 116;
+  return 255 * (L ** 3 > 216 / 24389 ? L ** 3 : (116 * L - 16) / (24389 / 27));
+}
+
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, v) => srgbToLinear(v));
+
+// ---------- Grayscale + tonal ----------
+export function toLuma(r: number, g: number, b: number): number {
+  // Rec. 709 luma
+  return Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+}
+
+const LUMA_WEIGHTS: Record<LumaModel, RGB> = {
+  "Rec. 709": [0.2126, 0.7152, 0.0722],
+  "Rec. 601": [0.299, 0.587, 0.114],
+  "CIE L*": [0.2126, 0.7152, 0.0722], // applied to linear RGB to get luminance Y
+};
+
+/**
+ * Encoded gray value (0..255) of an sRGB pixel. Rec. 601/709 weigh the
+ * encoded bytes, or the linearised channels (re-encoded) with linear light;
+ * CIE L* is the lightness of the true luminance.
+ */
+export function grayValue(r: number, g: number, b: number, model: LumaModel = "Rec. 709", linearLight = false): number {
+  const [wr, wg, wb] = LUMA_WEIGHTS[model];
+  if (model !== "CIE L*" && !linearLight) return wr * r + wg * g + wb * b;
+  const y = wr * SRGB_TO_LINEAR[r] + wg * SRGB_TO_LINEAR[g] + wb * SRGB_TO_LINEAR[b];
+  return model === "CIE L*" ? lightness(y) : linearToSrgb(y);
+}
+
+/** Decodes an encoded gray value to linear light with the curve matching `model`. */
+function decodeGray(v: number, model: LumaModel): number {
+  return model === "CIE L*" ? inverseLightness(v) : srgbToLinear(v);
+}
+
+export function applyTonalAdjustments(v: number, t: TonalSettings): number {
+  // v in [0,255]
+  let x = v / 255; // [0,1]
+  // brightness: simple add in linear domain
+  x = x + t.brightness / 100;
+  // contrast: scale around 0.5
+  if (t.contrast !== 0) {
+    const c = (100 + t.contrast) / 100; // 0..2
+    x = (x - 0.5) * c + 0.5;
+  }
+  // gamma: pow mapping
+  if (t.gamma > 0 && t.gamma !== 1) {
+    x = Math.pow(Math.max(0, Math.min(1, x)), 1 / t.gamma);
+  } else {
+    x = Math.max(0, Math.min(1, x));
+  }
+  if (t.invert) x = 1 - x;
+  return Math.round(x * 255);
+}
+
+/**
+ * Compiles levels, the tone curve and the basic adjustments (in that order)
+ * into a 256-entry table over encoded values.
+ */
+export function toneLut(t: TonalSettings): Uint8Array {
+  const curve = t.toneCurve && t.toneCurve.length >= 2 ? toneCurve(t.toneCurve) : null;
+  const levels = { black: t.levelsBlack ?? 0, white: t.levelsWhite ?? 255, mid: t.levelsMid ?? 1 };
+  const lut = new Uint8Array(256);
+  for (let v = 0; v < 256; v++) {
+    let x = applyLevels(v, levels);
+    if (curve) x = curve(x);
+    lut[v] = applyTonalAdjustments(Math.round(Math.max(0, Math.min(255, x))), t);
+  }
+  return lut;
+}
+
+/**
+ * Converts RGBA pixels to a tonally adjusted grayscale buffer (one value per
+ * pixel, 0..255), decoded to linear light when `t.linearLight` is set.
+ */
+export function toGray(rgba: ArrayLike<number>, t: TonalSettings): Float32Array {
+  const model = t.lumaModel ?? "Rec. 709";
+  const linear = !!t.linearLight;
+  const lut = toneLut(t);
+  // the adjusted value is an integer, so the decode is a table lookup
+  const decoded = linear ? Float32Array.from({ length: 256 }, (_, v) => decodeGray(v, model)) : null;
+  const gray = new Float32Array(rgba.length >> 2);
+  for (let i = 0, p = 0; i < rgba.length; i += 4, p++) {
+    const v = lut[Math.round(grayValue(rgba[i], rgba[i + 1], rgba[i + 2], model, linear))];
+    gray[p] = decoded ? decoded[v] : v;
+  }
+  return gray;
+}
+
+/** Applies the tone table per channel, dropping alpha (three values per pixel). */
+export function adjustRgb(rgba: ArrayLike<number>, t: TonalSettings): Float32Array {
+  const rgb = new Float32Array((rgba.length >> 2) * 3);
+  const lut = toneLut(t);
+  const out = (v: number) => (t.linearLight ? SRGB_TO_LINEAR[lut[v]] : lut[v]);
+  for (let i = 0, o = 0; i < rgba.length; i += 4, o += 3) {
+    rgb[o] = out(rgba[i]);
+    rgb[o + 1] = out(rgba[i + 1]);
+    rgb[o + 2] = out(rgba[i + 2]);
+  }
+  return rgb;
+}
+
+// ---------- Quantizers ----------
+/** Maps pixel values (one or three channels, 0..255) to the nearest output index. */
+export type Quantizer = {
+  channels: number;
+  nearest(buf: ArrayLike<number>, offset: number): number;
+  /** Channel `c` of output `k`, used to compute diffusion error. */
+  value(k: number, c: number): number;
+  /** Amplitude of the ordered/random threshold offsets (one quantization step). */
+  spread: number;
+};
+
+/**
+ * N gray levels, evenly spaced 0..255 in encoded values; output index is the
+ * level. With `decode` the levels are mapped into the same (linear) space as
+ * the pixels and matched by nearest value.
+ */
+export function grayLevels(n: number, decode?: (v: number) => number): Quantizer {
+  const levels = Math.max(2, n);
+  const step = 255 / (levels - 1);
+  if (!decode) {
+    return {
+      channels: 1,
+      nearest: (buf, o) => Math.min(levels - 1, Math.max(0, Math.round(buf[o] / step))),
+      value: (k) => k * step,
+      spread: step,
+    };
+  }
+  const values = Array.from({ length: levels }, (_, k) => decode(k * step));
+  return {
+    channels: 1,
+    nearest: (buf, o) => {
+      let k = 0;
+      while (k < levels - 1 && buf[o] > (values[k] + values[k + 1]) / 2) k++;
+      return k;
+    },
+    value: (k) => values[k],
+    spread: 255 / (levels - 1),
+  };
+}
+
+// linear RGB (0..255) to OKLab
+function oklab(r: number, g: number, b: number): RGB {
+  const [lr, lg, lb] = [r / 255, g / 255, b / 255];
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+/**
+ * Nearest colour by squared distance; output index is the colour index.
+ * Colours are sRGB; with `linearLight` pixels arrive linearised and the
+ * palette is decoded to match. "Perceptual" compares in OKLab instead,
+ * while diffusion error stays in the working space.
+ */
+export function rgbColors(colors: RGB[], { linearLight = false, metric = "RGB" }: { linearLight?: boolean; metric?: ColorMetric } = {}): Quantizer {
+  const working = linearLight ? colors.map((c) => c.map(srgbToLinear) as RGB) : colors;
+  const perceptual = metric === "Perceptual";
+  const toLinear = (v: number) => (linearLight ? Math.max(0, Math.min(255, v)) : srgbToLinear(v));
+  const targets = perceptual ? colors.map((c) => oklab(srgbToLinear(c[0]), srgbToLinear(c[1]), srgbToLinear(c[2]))) : working;
+  const px: RGB = [0, 0, 0];
+  return {
+    channels: 3,
+    nearest: (buf, o) => {
+      if (perceptual) {
+        const lab = oklab(toLinear(buf[o]), toLinear(buf[o + 1]), toLinear(buf[o + 2]));
+        px[0] = lab[0];
+        px[1] = lab[1];
+        px[2] = lab[2];
+      } else {
+        px[0] = buf[o];
+        px[1] = buf[o + 1];
+        px[2] = buf[o + 2];
+      }
+      let best = 0;
+      let bestD = Infinity;
+      for (let k = 0; k < targets.length; k++) {
+        const dr = px[0] - targets[k][0];
+        const dg = px[1] - targets[k][1];
+        const db = px[2] - targets[k][2];
+        const d = dr * dr + dg * dg + db * db;
+        if (d < bestD) {
+          bestD = d;
+          best = k;
+        }
+      }
+      return best;
+    },
+    value: (k, c) => working[k][c],
+    // roughly the per-channel gap of an evenly filled colour cube
+    spread: 255 / Math.max(1, Math.cbrt(colors.length) - 1),
+  };
+}
+
+// ---------- Dither ----------
+/** Shift of the ordered threshold maps for animation frame `frame` (none for frame 0). */
+export function frameOffset(frame = 0): [number, number] {
+  if (!frame) return [0, 0];
+  const random = mulberry32(frame);
+  return [Math.floor(random() * 1024), Math.floor(random() * 1024)];
+}
+
+/**
+ * Dithers `values` (`q.channels` per pixel) into one output index per pixel.
+ * With the default two-level quantizer the result is a binary mask (1 = lit).
+ */
+export function dither(
+  values: ArrayLike<number>,
+  w: number,
+  h: number,
+  options: DitherOptions,
+  q: Quantizer = grayLevels(2)
+): Uint8Array {
+  const out = new Uint8Array(w * h);
+  const c = q.channels;
+  const { algorithm } = options;
+
+  // offset every channel of a pixel by `bias(x, y)` and snap to the nearest output
+  const px = new Float32Array(c);
+  const [ox, oy] = frameOffset(options.frame);
+  const ordered = (bias: (x: number, y: number) => number) => {
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const i = y * w + x;
+        const b = bias(x + ox, y + oy);
+        for (let k = 0; k < c; k++) px[k] = values[i * c + k] + b;
+        out[i] = q.nearest(px, 0);
+      }
+    }
+  };
+
+  switch (algorithm) {
+    case "Threshold": {
+      const T = Math.max(0, Math.min(255, options.threshold));
+      ordered(() => 128 - T);
+      break;
+    }
+    case "Random": {
+      const random = options.random ?? mulberry32((options.seed ?? 0) + (options.frame ?? 0));
+      const amplitude = (q.spread * (options.noiseAmplitude ?? 100)) / 100;
+      ordered(() => (0.5 - random()) * amplitude);
+      break;
+    }
+    case "Ordered Bayer 2x2":
+    case "Ordered Bayer 4x4":
+    case "Ordered Bayer 8x8": {
+      const m = algorithm.includes("2x2") ? BAYER_2 : algorithm.includes("4x4") ? BAYER_4 : BAYER_8;
+      const n = m.length;
+      const scale = n * n; // max index + 1
+      ordered((x, y) => (0.5 - (m[y % n][x % n] + 0.5) / scale) * q.spread);
+      break;
+    }
+    case "Blue Noise": {
+      const n = options.blueNoiseSize ?? 64;
+      const map = blueNoise(n);
+      ordered((x, y) => (0.5 - map[(y % n) * n + (x % n)]) * q.spread);
+      break;
+    }
+    case "Halftone": {
+      const t = halftoneThreshold(options.halftoneShape ?? "Round", options.halftoneCell ?? 8, options.halftoneAngle ?? 45);
+      ordered((x, y) => (0.5 - t(x, y)) * q.spread);
+      break;
+    }
+    default: {
+      const kernel = algorithm === CUSTOM_KERNEL ? options.customKernel : KERNELS[algorithm];
+      if (!kernel) break;
+      const strength = (options.errorStrength ?? 100) / 100;
+      const taps = kernelTaps(kernel).map(([dx, dy, weight]): KernelTap => [dx, dy, weight * strength]);
+      diffuse(values, w, h, q, taps, !!options.serpentine, out);
+      break;
+    }
+  }
+
+  return out;
+}
+
+function diffuse(
+  values: ArrayLike<number>,
+  w: number,
+  h: number,
+  q: Quantizer,
+  taps: KernelTap[],
+  serpentine: boolean,
+  out: Uint8Array
+) {
+  const c = q.channels;
+  const buf = Float32Array.from(values);
+  const err = new Float64Array(c);
+  for (let y = 0; y < h; y++) {
+    // serpentine rows run right-to-left with the kernel mirrored
+    const dir = serpentine && y % 2 === 1 ? -1 : 1;
+    for (let n = 0; n < w; n++) {
+      const x = dir === 1 ? n : w - 1 - n;
+      const i = y * w + x;
+      const k = q.nearest(buf, i * c);
+      out[i] = k;
+      for (let ch = 0; ch < c; ch++) err[ch] = buf[i * c + ch] - q.value(k, ch);
+      for (const [dx, dy, weight] of taps) {
+        const nx = x + dx * dir;
+        const ny = y + dy;
+        if (nx < 0 || nx >= w || ny >= h) continue;
+        const o = (ny * w + nx) * c;
+        for (let ch = 0; ch < c; ch++) buf[o + ch] += err[ch] * weight;
+      }
+    }
+  }
+}
+
+// a plain threshold does no spatial averaging, so the slider stays in encoded values
+function effectiveSettings(s: DitherSettings): DitherSettings {
+  return s.algorithm === "Threshold" ? { ...s, linearLight: false } : s;
+}
+
+/**
+ * Gray-mode input to the dither step: adjusted and filtered values, the
+ * level quantizer, and the palette index for each level. Longer palettes
+ * are ordered by luma so level 0 gets the darkest colour; two-colour
+ * palettes keep the editor's original mapping, ink (the first colour) on
+ * the bright level and paper on the dark one.
+ */
+export function grayInput(rgba: ArrayLike<number>, w: number, h: number, s: DitherSettings, palette: Palette) {
+  s = effectiveSettings(s);
+  const colors = palette.map(hexToRgb);
+  const order =
+    colors.length === 2
+      ? [1, 0]
+      : colors
+          .map((rgb, i) => ({ i, l: toLuma(rgb[0], rgb[1], rgb[2]) }))
+          .sort((a, b) => a.l - b.l)
+          .map((e) => e.i);
+  const model = s.lumaModel ?? "Rec. 709";
+  const values = applyFilters(toGray(rgba, s), w, h, 1, s.filters ?? []);
+  const q = grayLevels(colors.length, s.linearLight ? (v) => decodeGray(v, model) : undefined);
+  return { values, q, order, decoded: !!s.linearLight };
+}
+
+/** Full pipeline from RGBA pixels to one palette index per pixel. */
+export function quantize(rgba: ArrayLike<number>, w: number, h: number, s: DitherSettings, palette: Palette): Uint8Array {
+  s = effectiveSettings(s);
+  if (s.colorMode === "rgb") {
+    const colors = palette.map(hexToRgb);
+    const rgb = applyFilters(adjustRgb(rgba, s), w, h, 3, s.filters ?? []);
+    return dither(rgb, w, h, s, rgbColors(colors, { linearLight: s.linearLight, metric: s.colorMetric }));
+  }
+  const { values, q, order } = grayInput(rgba, w, h, s, palette);
+  const levels = dither(values, w, h, s, q);
+  for (let p = 0; p < levels.length; p++) levels[p] = order[levels[p]];
+  return levels;
+}
+
+// ---------- Paint ----------
+/**
+ * Expands palette indices to RGBA with every index as a `pixelSize` block
+ * (nearest-neighbour), ready for `ImageData` or an encoder.
+ */
+export function indicesToRgba(indices: ArrayLike<number>, w: number, h: number, palette: Palette, pixelSize: number): Uint8ClampedArray<ArrayBuffer> {
+  // one packed RGBA word per palette entry, in platform byte order
+  const bytes = new Uint8Array(palette.length * 4);
+  palette.forEach((hex, k) => bytes.set([...hexToRgb(hex), 255], k * 4));
+  const colors = new Uint32Array(bytes.buffer);
+
+  const outW = w * pixelSize;
+  const out = new Uint8ClampedArray(outW * h * pixelSize * 4);
+  const words = new Uint32Array(out.buffer);
+  for (let y = 0; y < h; y++) {
+    // fill the first row of the block, then copy it down
+    const row = y * pixelSize * outW;
+    for (let x = 0, o = row; x < w; x++) {
+      const c = colors[indices[y * w + x]];
+      for (let k = 0; k < pixelSize; k++) words[o++] = c;
+    }
+    for (let r = 1; r < pixelSize; r++) words.copyWithin(row + r * outW, row, row + outW);
+  }
+  return out;
+}
+
+type Paintable = Pick<CanvasRenderingContext2D, "putImageData">;
+
+/**
+ * Paints palette indices as `pixelSize` blocks in a single `putImageData`.
+ * The target must already be sized to `w * pixelSize` by `h * pixelSize`.
+ */
+export function paintIndices(ctx: Paintable, indices: ArrayLike<number>, w: number, h: number, palette: Palette, pixelSize: number) {
+  const rgba = indicesToRgba(indices, w, h, palette, pixelSize);
+  ctx.putImageData(new ImageData(rgba, w * pixelSize, h * pixelSize), 0, 0);
+}
@@ -0,0 +1,117 @@
+/**
+ * Dither runner
+ * -------------------------------------------------------------
+ * Main-thread handle on the dither worker. Starting a new job rejects the
+ * previous one with an AbortError. A worker that is idle is kept, so its
+ * caches (blue-noise maps, the WebGL context) survive between jobs; one
+ * still busy with the stale job is terminated and replaced, since a
+ * synchronous pipeline can't be interrupted, so the newest job starts at
+ * once instead of waiting behind it.
+ */
+import type { DitherSettings } from "./dither";
+import type { Palette } from "./palettes";
+import type { RegionJob } from "./regions";
+import type { ResampleMethod } from "./resample";
+
+export type DitherJob = {
+  id: number;
+  pixels: Uint8ClampedArray;
+  width: number; // working grid the dither runs at
+  height: number;
+  source?: { width: number; height: number; method: ResampleMethod }; // `pixels` size when it differs from the grid
+  settings: Omit<DitherSettings, "random">; // must survive structured clone
+  palette: Palette;
+  pixelSize: number;
+  paint?: boolean; // false skips the OffscreenCanvas paint (exports only need the mask)
+  gpu?: boolean; // dither supported modes in WebGL when available (preview only, exports stay on the CPU)
+  regions?: RegionJob[]; // composited over the main result in order
+};
+
+export type DitherResult = {
+  mask: Uint8Array; // palette index per pixel
+  bitmap?: ImageBitmap; // present when the worker could paint via OffscreenCanvas
+  gpu?: boolean; // the dither step ran on the GPU
+};
+
+export type WorkerMessage =
+  | { type: "progress"; id: number; progress: number }
+  | { type: "error"; id: number; message: string }
+  | ({ type: "done"; id: number } & DitherResult);
+
+type Pending = {
+  id: number;
+  resolve: (r: DitherResult) => void;
+  reject: (err: unknown) => void;
+  onProgress?: (p: number) => void;
+};
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+export function createDitherRunner() {
+  let worker: Worker | null = null;
+  let pending: Pending | null = null; // the job the worker is busy with
+  let nextId = 1;
+
+  function settle(id: number, outcome: (p: Pending) => void) {
+    if (pending?.id !== id) return; // a message sent just before its job was cancelled
+    const p = pending;
+    pending = null;
+    outcome(p);
+  }
+
+  function spawn(): Worker {
+    const w = new Worker(new URL("./ditherWorker.ts", import.meta.url), { type: "module" });
+    w.onmessage = (e: MessageEvent<WorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === "progress") {
+        if (pending?.id === msg.id) pending.onProgress?.(msg.progress);
+      } else if (msg.type === "error") {
+        settle(msg.id, (p) => p.reject(new Error(msg.message)));
+      } else {
+        settle(msg.id, (p) => p.resolve({ mask: msg.mask, bitmap: msg.bitmap, gpu: msg.gpu }));
+      }
+    };
+    // the worker itself failed (script error, out of memory): start over with a fresh one
+    w.onerror = (e) => {
+      e.preventDefault();
+      w.terminate();
+      if (worker !== w) return; // already replaced
+      worker = null;
+      if (pending) settle(pending.id, (p) => p.reject(new Error(e.message || "Dither worker failed")));
+    };
+    return w;
+  }
+
+  /** Cancels the running job, if any, stopping its worker. */
+  function cancel() {
+    if (!pending) return;
+    const { reject } = pending;
+    pending = null;
+    worker?.terminate();
+    worker = null;
+    reject(new DOMException("Dither job superseded", "AbortError"));
+  }
+
+  /** Runs a job; the pixel buffer is transferred to the worker and must not be reused. */
+  function run(job: Omit<DitherJob, "id">, onProgress?: (p: number) => void): Promise<DitherResult> {
+    cancel();
+    const withId = { ...job, id: nextId++ };
+    return new Promise<DitherResult>((resolve, reject) => {
+      pending = { id: withId.id, resolve, reject, onProgress };
+      worker ??= spawn();
+      worker.postMessage(withId, [withId.pixels.buffer]);
+    });
+  }
+
+  function dispose() {
+    cancel();
+    worker?.terminate();
+    worker = null;
+  }
+
+  return { run, cancel, dispose };
+}
+
+export type DitherRunner = ReturnType<typeof createDitherRunner>;
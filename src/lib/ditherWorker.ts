@@ -0,0 +1,60 @@
+/**
+ * Dither worker
+ * -------------------------------------------------------------
+ * Runs the dither pipeline (`pipeline.ts`) off the main thread. When
+ * OffscreenCanvas is available the palette paint happens here too and
+ * the result comes back as an ImageBitmap; otherwise only the index
+ * mask is returned and the caller paints it. Jobs that ask for it dither
+ * on the GPU when the settings and the browser allow. Region jobs are
+ * dithered in full and composited over the main result. The runner keeps
+ * the worker between jobs, so the blue-noise maps and the WebGL context it
+ * builds are reused until a job is cancelled mid-run and the worker with it.
+ */
+import { paintIndices, quantize } from "./dither";
+import type { DitherJob, WorkerMessage } from "./ditherClient";
+import { createGpuDitherer, type GpuDitherer } from "./gpuDither";
+import { runPipeline } from "./pipeline";
+
+let gpuDitherer: GpuDitherer | null | undefined; // created by the first GPU job, null when WebGL2 is missing
+
+function post(msg: WorkerMessage, transfer: Transferable[] = []) {
+  self.postMessage(msg, { transfer });
+}
+
+// the pipeline's share of the progress bar; painting takes the rest
+const PIPELINE_SHARE = 0.9;
+
+function runJob(job: DitherJob) {
+  const { id, width: w, height: h, settings, palette, pixelSize, paint = true, gpu = false } = job;
+
+  if (gpu && gpuDitherer === undefined) gpuDitherer = createGpuDitherer();
+  const gpuFor = (s: DitherJob["settings"]) => (gpu && gpuDitherer?.supports(s, w, h) ? gpuDitherer : null);
+  const onGpu = !!gpuFor(settings);
+  const mask = runPipeline(
+    job,
+    (pixels, w, h, s, palette) => gpuFor(s)?.quantize(pixels, w, h, s, palette) ?? quantize(pixels, w, h, s, palette),
+    (fraction) => post({ type: "progress", id, progress: fraction * PIPELINE_SHARE }),
+  );
+
+  if (paint && typeof OffscreenCanvas !== "undefined") {
+    const canvas = new OffscreenCanvas(w * pixelSize, h * pixelSize);
+    const ctx = canvas.getContext("2d");
+    if (ctx) {
+      ctx.imageSmoothingEnabled = false;
+      paintIndices(ctx, mask, w, h, palette, pixelSize);
+      const bitmap = canvas.transferToImageBitmap();
+      post({ type: "done", id, mask, bitmap, gpu: onGpu }, [mask.buffer, bitmap]);
+      return;
+    }
+  }
+  post({ type: "done", id, mask, gpu: onGpu }, [mask.buffer]);
+}
+
+// errors go back with the job id so the worker stays up for the next job
+self.onmessage = (e: MessageEvent<DitherJob>) => {
+  try {
+    runJob(e.data);
+  } catch (err) {
+    post({ type: "error", id: e.data.id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
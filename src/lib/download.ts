@@ -0,0 +1,23 @@
+import type { EditorSettings } from "./settings";
+
+/** Saves a blob through a temporary object URL. */
+export function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// <name>_<algorithm>[-s<seed>], so seeded exports can be reproduced from the filename
+export function exportBaseName(fileName: string, look: Pick<EditorSettings, "algorithm" | "seed">): string {
+  const base = (fileName ? fileName.replace(/\.[^.]+$/, "") : "dithered") + "_" + look.algorithm.replace(/\s+/g, "-");
+  return look.algorithm === "Random" ? `${base}-s${look.seed}` : base;
+}
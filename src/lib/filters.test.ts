@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { applyFilters, createFilter, FILTER_KINDS, type FilterKind, type FilterStep } from "./filters";
+
+const W = 8;
+const H = 8;
+
+function plane(f: (x: number, y: number) => number, w = W, h = H): Float32Array {
+  return Float32Array.from({ length: w * h }, (_, p) => f(p % w, Math.floor(p / w)));
+}
+
+function step(kind: FilterKind, params: Record<string, number> = {}, enabled = true): FilterStep {
+  const base = createFilter(kind);
+  return { ...base, enabled, params: { ...base.params, ...params } };
+}
+
+const run = (values: Float32Array, ...steps: FilterStep[]) => applyFilters(values, W, H, 1, steps);
+
+// dark left half, light right half
+const edge = plane((x) => (x < W / 2 ? 64 : 192));
+
+describe("applyFilters", () => {
+  // local contrast equalises every tile, so it moves even a flat one
+  it.each(FILTER_KINDS.filter((k) => k !== "Local Contrast"))("leaves a flat image alone: %s", (kind) => {
+    const flat = plane(() => 100);
+    for (const v of run(flat, step(kind))) expect(v).toBeCloseTo(100, 3);
+  });
+
+  it("spreads a spike with the Gaussian blur, keeping its mass", () => {
+    const out = run(
+      plane((x, y) => (x === 4 && y === 4 ? 200 : 0)),
+      step("Gaussian Blur", { radius: 0.8 })
+    );
+    expect(out[4 * W + 4]).toBeLessThan(200);
+    expect(out[4 * W + 3]).toBeGreaterThan(0);
+    expect(out[4 * W + 3]).toBeCloseTo(out[4 * W + 5], 4);
+    expect(out.reduce((a, b) => a + b, 0)).toBeCloseTo(200, 2);
+  });
+
+  it("overshoots either side of an edge with the unsharp mask, above its threshold only", () => {
+    const out = run(edge, step("Unsharp Mask", { radius: 1, amount: 100, threshold: 0 }));
+    expect(out[3]).toBeLessThan(64);
+    expect(out[4]).toBeGreaterThan(192);
+    expect(Array.from(run(edge, step("Unsharp Mask", { radius: 1, amount: 100, threshold: 50 })))).toEqual(Array.from(edge));
+  });
+
+  it("subtracts the neighbour mean with edge enhance", () => {
+    const out = applyFilters(Float32Array.from([0, 0, 100, 100]), 4, 1, 1, [step("Edge Enhance", { amount: 100 })]);
+    expect(Array.from(out)).toEqual([0, 0, 137.5, 100]);
+  });
+
+  it("stretches a low-contrast image with local contrast", () => {
+    const out = run(plane((x, y) => 100 + (x + y) * 3), step("Local Contrast", { tiles: 2, clip: 8 }));
+    expect(Math.max(...out) - Math.min(...out)).toBeGreaterThan(42 * 1.5);
+  });
+
+  it("removes isolated specks with the median denoise", () => {
+    const out = run(plane((x, y) => (x === 2 && y === 5 ? 255 : 40)), step("Denoise"));
+    expect(out.every((v) => v === 40)).toBe(true);
+  });
+
+  it("filters each channel on its own and clamps to 0..255", () => {
+    const values = Float32Array.from({ length: 4 * 2 }, (_, i) => (i % 2 ? 10 : [0, 0, 100, 100][i >> 1]));
+    const out = applyFilters(values, 4, 1, 2, [step("Edge Enhance", { amount: 200 })]);
+    expect(Array.from(out)).toEqual([0, 10, 0, 10, 175, 10, 100, 10]);
+  });
+
+  it("skips disabled steps", () => {
+    expect(run(edge, step("Gaussian Blur", {}, false))).toBe(edge);
+    expect(Array.from(run(edge, step("Denoise"), step("Edge Enhance", {}, false)))).toEqual(Array.from(run(edge, step("Denoise"))));
+  });
+
+  it("runs the steps in stack order", () => {
+    const blur = step("Gaussian Blur", { radius: 1 });
+    const sharpen = step("Edge Enhance", { amount: 100 });
+    const stacked = run(edge, blur, sharpen);
+    expect(Array.from(stacked)).toEqual(Array.from(run(run(edge, blur), sharpen)));
+    expect(Array.from(stacked)).not.toEqual(Array.from(run(edge, sharpen, blur)));
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Pre-dither filters
+ * -------------------------------------------------------------
+ * An ordered stack of image filters run on the adjusted values right
+ * before dithering: Gaussian blur, unsharp mask, edge enhancement,
+ * CLAHE-style local contrast and median noise reduction. Each filter works
+ * on one float plane (0..255); multi-channel buffers are filtered per
+ * channel. Parameters are described by `FILTER_PARAMS` so settings
+ * validation and the editor UI share one source of truth.
+ */
+
+export const FILTER_KINDS = ["Unsharp Mask", "Gaussian Blur", "Edge Enhance", "Local Contrast", "Denoise"] as const;
+
+export type FilterKind = typeof FILTER_KINDS[number];
+
+export type FilterParam = { key: string; label: string; min: number; max: number; step: number; default: number };
+
+export const FILTER_PARAMS: Record<FilterKind, FilterParam[]> = {
+  "Unsharp Mask": [
+    { key: "radius", label: "Radius", min: 0.3, max: 10, step: 0.1, default: 1.5 },
+    { key: "amount", label: "Amount %", min: 0, max: 300, step: 1, default: 80 },
+    { key: "threshold", label: "Threshold", min: 0, max: 50, step: 1, default: 2 },
+  ],
+  "Gaussian Blur": [{ key: "radius", label: "Radius", min: 0.3, max: 10, step: 0.1, default: 1 }],
+  "Edge Enhance": [{ key: "amount", label: "Amount %", min: 0, max: 200, step: 1, default: 50 }],
+  "Local Contrast": [
+    { key: "tiles", label: "Tiles", min: 2, max: 16, step: 1, default: 8 },
+    { key: "clip", label: "Clip limit", min: 1, max: 8, step: 0.1, default: 2 },
+  ],
+  Denoise: [{ key: "radius", label: "Radius", min: 1, max: 3, step: 1, default: 1 }],
+};
+
+export type FilterStep = {
+  kind: FilterKind;
+  enabled: boolean;
+  params: Record<string, number>;
+};
+
+/** A new step with default parameters. */
+export function createFilter(kind: FilterKind): FilterStep {
+  return { kind, enabled: true, params: Object.fromEntries(FILTER_PARAMS[kind].map((p) => [p.key, p.default])) };
+}
+
+function param(step: FilterStep, key: string): number {
+  const spec = FILTER_PARAMS[step.kind].find((p) => p.key === key);
+  const v = step.params[key];
+  return typeof v === "number" && Number.isFinite(v) ? v : spec?.default ?? 0;
+}
+
+// ---------- Filters (one plane) ----------
+function gaussianBlur(src: Float32Array, w: number, h: number, sigma: number): Float32Array {
+  const r = Math.max(1, Math.ceil(sigma * 3));
+  const k = new Float32Array(2 * r + 1);
+  let sum = 0;
+  for (let i = -r; i <= r; i++) sum += k[i + r] = Math.exp(-(i * i) / (2 * sigma * sigma));
+  for (let i = 0; i < k.length; i++) k[i] /= sum;
+
+  // separable: rows into tmp, then columns into out, edges clamped
+  const tmp = new Float32Array(src.length);
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < w; x++) {
+      let acc = 0;
+      for (let i = -r; i <= r; i++) acc += k[i + r] * src[row + Math.min(w - 1, Math.max(0, x + i))];
+      tmp[row + x] = acc;
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let acc = 0;
+      for (let i = -r; i <= r; i++) acc += k[i + r] * tmp[Math.min(h - 1, Math.max(0, y + i)) * w + x];
+      out[y * w + x] = acc;
+    }
+  }
+  return out;
+}
+
+function unsharpMask(src: Float32Array, w: number, h: number, sigma: number, amount: number, threshold: number): Float32Array {
+  const blurred = gaussianBlur(src, w, h, sigma);
+  const out = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i++) {
+    const detail = src[i] - blurred[i];
+    out[i] = Math.abs(detail) >= threshold ? src[i] + detail * amount : src[i];
+  }
+  return out;
+}
+
+// subtracts the 8-neighbour Laplacian, which steepens edges without a blur radius
+function edgeEnhance(src: Float32Array, w: number, h: number, amount: number): Float32Array {
+  const out = new Float32Array(src.length);
+  const at = (x: number, y: number) => src[Math.min(h - 1, Math.max(0, y)) * w + Math.min(w - 1, Math.max(0, x))];
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let around = 0;
+      for (let dy = -1; dy <= 1; dy++) for (let dx = -1; dx <= 1; dx++) if (dx || dy) around += at(x + dx, y + dy);
+      const v = src[y * w + x];
+      out[y * w + x] = v + amount * (v - around / 8);
+    }
+  }
+  return out;
+}
+
+/**
+ * Contrast-limited adaptive histogram equalisation: a clipped equalisation
+ * curve per tile, blended bilinearly between tile centres.
+ */
+function localContrast(src: Float32Array, w: number, h: number, tiles: number, clip: number): Float32Array {
+  const tx = Math.max(1, Math.min(tiles, w));
+  const ty = Math.max(1, Math.min(tiles, h));
+  const maps: Float32Array[] = [];
+  for (let j = 0; j < ty; j++) {
+    for (let i = 0; i < tx; i++) {
+      const x0 = Math.floor((i * w) / tx);
+      const x1 = Math.floor(((i + 1) * w) / tx);
+      const y0 = Math.floor((j * h) / ty);
+      const y1 = Math.floor(((j + 1) * h) / ty);
+      const hist = new Float32Array(256);
+      for (let y = y0; y < y1; y++) for (let x = x0; x < x1; x++) hist[Math.max(0, Math.min(255, Math.round(src[y * w + x])))]++;
+      const count = Math.max(1, (x1 - x0) * (y1 - y0));
+      // clip and spread the excess evenly
+      const limit = (clip * count) / 256;
+      let excess = 0;
+      for (let v = 0; v < 256; v++) {
+        if (hist[v] > limit) {
+          excess += hist[v] - limit;
+          hist[v] = limit;
+        }
+      }
+      const map = new Float32Array(256);
+      let acc = 0;
+      for (let v = 0; v < 256; v++) {
+        acc += hist[v] + excess / 256;
+        map[v] = (acc / count) * 255;
+      }
+      maps.push(map);
+    }
+  }
+
+  const out = new Float32Array(src.length);
+  for (let y = 0; y < h; y++) {
+    const fy = Math.max(0, Math.min(ty - 1, ((y + 0.5) * ty) / h - 0.5));
+    const j0 = Math.floor(fy);
+    const j1 = Math.min(ty - 1, j0 + 1);
+    const wy = fy - j0;
+    for (let x = 0; x < w; x++) {
+      const fx = Math.max(0, Math.min(tx - 1, ((x + 0.5) * tx) / w - 0.5));
+      const i0 = Math.floor(fx);
+      const i1 = Math.min(tx - 1, i0 + 1);
+      const wx = fx - i0;
+      const v = Math.max(0, Math.min(255, Math.round(src[y * w + x])));
+      const top = maps[j0 * tx + i0][v] * (1 - wx) + maps[j0 * tx + i1][v] * wx;
+      const bottom = maps[j1 * tx + i0][v] * (1 - wx) + maps[j1 * tx + i1][v] * wx;
+      out[y * w + x] = top * (1 - wy) + bottom * wy;
+    }
+  }
+  return out;
+}
+
+function median(src: Float32Array, w: number, h: number, r: number): Float32Array {
+  const out = new Float32Array(src.length);
+  const win = new Float32Array((2 * r + 1) * (2 * r + 1));
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let n = 0;
+      for (let dy = -r; dy <= r; dy++) {
+        const row = Math.min(h - 1, Math.max(0, y + dy)) * w;
+        for (let dx = -r; dx <= r; dx++) win[n++] = src[row + Math.min(w - 1, Math.max(0, x + dx))];
+      }
+      out[y * w + x] = win.sort()[n >> 1];
+    }
+  }
+  return out;
+}
+
+function applyStep(plane: Float32Array, w: number, h: number, step: FilterStep): Float32Array {
+  switch (step.kind) {
+    case "Unsharp Mask":
+      return unsharpMask(plane, w, h, param(step, "radius"), param(step, "amount") / 100, param(step, "threshold"));
+    case "Gaussian Blur":
+      return gaussianBlur(plane, w, h, param(step, "radius"));
+    case "Edge Enhance":
+      return edgeEnhance(plane, w, h, param(step, "amount") / 100);
+    case "Local Contrast":
+      return localContrast(plane, w, h, Math.round(param(step, "tiles")), param(step, "clip"));
+    case "Denoise":
+      return median(plane, w, h, Math.round(param(step, "radius")));
+  }
+}
+
+/** Runs the enabled steps in order over `values` (`channels` interleaved per pixel). */
+export function applyFilters(values: Float32Array, w: number, h: number, channels: number, steps: FilterStep[]): Float32Array {
+  const active = steps.filter((s) => s.enabled);
+  if (!active.length) return values;
+  const out = new Float32Array(values.length);
+  for (let c = 0; c < channels; c++) {
+    let plane: Float32Array = new Float32Array(w * h);
+    for (let p = 0; p < plane.length; p++) plane[p] = values[p * channels + c];
+    for (const step of active) plane = applyStep(plane, w, h, step);
+    for (let p = 0; p < plane.length; p++) out[p * channels + c] = Math.max(0, Math.min(255, plane[p]));
+  }
+  return out;
+}
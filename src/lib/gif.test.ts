@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { decodeGif, encodeGif, type GifOutFrame } from "./gif";
+import { hexToRgb, type Palette } from "./palettes";
+
+async function roundTrip(frames: GifOutFrame[], w: number, h: number, palette: Palette, scale?: number) {
+  return decodeGif(await encodeGif(frames, w, h, palette, scale).arrayBuffer());
+}
+
+// the palette index of every decoded pixel
+function indicesOf(rgba: Uint8ClampedArray, palette: Palette): number[] {
+  const colors = palette.map((c) => hexToRgb(c).join());
+  const out: number[] = [];
+  for (let i = 0; i < rgba.length; i += 4) out.push(colors.indexOf(`${rgba[i]},${rgba[i + 1]},${rgba[i + 2]}`));
+  return out;
+}
+
+describe("encodeGif", () => {
+  const palette = ["#000000", "#ff0000", "#00ff00"]; // not a power of two: the table is padded
+
+  it("round-trips every frame through the decoder", async () => {
+    const frames = [
+      { indices: [0, 1, 2, 0, 1, 2], delay: 100 },
+      { indices: [2, 2, 1, 1, 0, 0], delay: 250 },
+    ];
+    const gif = await roundTrip(frames, 3, 2, palette);
+    expect([gif.width, gif.height, gif.frames.length]).toEqual([3, 2, 2]);
+    expect(gif.frames.map((f) => indicesOf(f.rgba, palette))).toEqual(frames.map((f) => f.indices));
+    expect(gif.frames.map((f) => f.delay)).toEqual([100, 250]);
+  });
+
+  it("survives LZW code-size growth on a noisy frame", async () => {
+    const w = 64;
+    const h = 64;
+    let s = 1;
+    const indices = Array.from({ length: w * h }, () => (s = (s * 1103515245 + 12345) % 2147483648) % 3);
+    const gif = await roundTrip([{ indices, delay: 100 }], w, h, palette);
+    expect(indicesOf(gif.frames[0].rgba, palette)).toEqual(indices);
+  });
+
+  it("upscales by the pixel size", async () => {
+    const gif = await roundTrip([{ indices: [0, 1], delay: 100 }], 2, 1, palette, 2);
+    expect([gif.width, gif.height]).toEqual([4, 2]);
+    expect(indicesOf(gif.frames[0].rgba, palette)).toEqual([0, 0, 1, 1, 0, 0, 1, 1]);
+  });
+
+  it("clamps tiny delays to the 20 ms browsers honour", async () => {
+    const gif = await roundTrip([{ indices: [0], delay: 0 }], 1, 1, palette);
+    expect(gif.frames[0].delay).toBe(20);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Animated GIF
+ * -------------------------------------------------------------
+ * Decoding goes through gifuct-js and is composited here into full RGBA
+ * frames (honouring disposal). Encoding is our own: frames are already
+ * palette indices, so they are LZW-packed as-is against a single global
+ * colour table built from the palette, upscaled by an integer pixel size.
+ */
+import { decompressFrames, parseGIF } from "gifuct-js";
+import { hexToRgb, type Palette } from "./palettes";
+
+export type GifFrame = { rgba: Uint8ClampedArray; delay: number }; // delay in ms
+
+export type DecodedGif = { width: number; height: number; frames: GifFrame[] };
+
+export function decodeGif(buffer: ArrayBuffer): DecodedGif {
+  const gif = parseGIF(buffer);
+  const { width, height } = gif.lsd;
+  const canvas = new Uint8ClampedArray(width * height * 4);
+  const frames: GifFrame[] = [];
+
+  for (const f of decompressFrames(gif, true)) {
+    const { left, top, width: fw, height: fh } = f.dims;
+    const before = f.disposalType === 3 ? canvas.slice() : null;
+
+    for (let y = 0; y < fh; y++) {
+      const cy = top + y;
+      if (cy < 0 || cy >= height) continue;
+      for (let x = 0; x < fw; x++) {
+        const cx = left + x;
+        if (cx < 0 || cx >= width) continue;
+        const s = (y * fw + x) * 4;
+        if (!f.patch[s + 3]) continue; // transparent pixel keeps what is underneath
+        canvas.set(f.patch.subarray(s, s + 4), (cy * width + cx) * 4);
+      }
+    }
+    frames.push({ rgba: canvas.slice(), delay: f.delay });
+
+    // disposal: 2 = clear the frame's rect, 3 = restore the previous canvas
+    if (f.disposalType === 2) {
+      for (let y = Math.max(0, top); y < Math.min(height, top + fh); y++) {
+        canvas.fill(0, (y * width + Math.max(0, left)) * 4, (y * width + Math.min(width, left + fw)) * 4);
+      }
+    } else if (before) {
+      canvas.set(before);
+    }
+  }
+  return { width, height, frames };
+}
+
+// ---------- Encoder ----------
+class ByteWriter {
+  private buf = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(b: number) {
+    if (this.length === this.buf.length) {
+      const next = new Uint8Array(this.buf.length * 2);
+      next.set(this.buf);
+      this.buf = next;
+    }
+    this.buf[this.length++] = b;
+  }
+  bytes(bs: ArrayLike<number>) {
+    for (let i = 0; i < bs.length; i++) this.byte(bs[i]);
+  }
+  u16(v: number) {
+    this.byte(v & 255);
+    this.byte((v >> 8) & 255);
+  }
+  result(): Uint8Array {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+// Variable-width LZW as used by GIF, written out in <=255-byte sub-blocks
+function writeLzw(out: ByteWriter, indices: ArrayLike<number>, minCodeSize: number) {
+  const clear = 1 << minCodeSize;
+  const eoi = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let next = eoi + 1;
+  let dict = new Map<number, number>();
+
+  const block: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  const emit = (code: number) => {
+    acc |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      block.push(acc & 255);
+      acc >>>= 8;
+      bits -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = prefix * 4096 + k;
+    const found = dict.get(key);
+    if (found !== undefined) {
+      prefix = found;
+      continue;
+    }
+    emit(prefix);
+    if (next === 4096) {
+      emit(clear);
+      dict = new Map();
+      codeSize = minCodeSize + 1;
+      next = eoi + 1;
+    } else {
+      if (next === 1 << codeSize) codeSize++;
+      dict.set(key, next++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoi);
+  if (bits > 0) block.push(acc & 255);
+  if (block.length) {
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0);
+}
+
+export type GifOutFrame = { indices: ArrayLike<number>; delay: number }; // delay in ms
+
+/** Encodes palette-index frames (all w×h) into a looping GIF, upscaled by `scale`. */
+export function encodeGif(frames: GifOutFrame[], w: number, h: number, palette: Palette, scale = 1): Blob {
+  const outW = w * scale;
+  const outH = h * scale;
+  const depth = Math.max(1, Math.ceil(Math.log2(Math.max(2, palette.length))));
+  const out = new ByteWriter();
+
+  out.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+  out.u16(outW);
+  out.u16(outH);
+  out.byte(0x80 | ((depth - 1) << 4) | (depth - 1)); // global colour table
+  out.byte(0);
+  out.byte(0);
+  for (let k = 0; k < 1 << depth; k++) out.bytes(k < palette.length ? hexToRgb(palette[k]) : [0, 0, 0]);
+
+  // NETSCAPE2.0: loop forever
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.bytes(Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)));
+  out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const scaled = new Uint8Array(outW * outH);
+  for (const frame of frames) {
+    for (let y = 0; y < outH; y++) {
+      const row = Math.floor(y / scale) * w;
+      for (let x = 0; x < outW; x++) scaled[y * outW + x] = frame.indices[row + Math.floor(x / scale)];
+    }
+    // graphic control extension: delay in 1/100 s, no transparency
+    out.bytes([0x21, 0xf9, 0x04, 0x00]);
+    out.u16(Math.max(2, Math.round(frame.delay / 10)));
+    out.bytes([0x00, 0x00]);
+    // image descriptor
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(outW);
+    out.u16(outH);
+    out.byte(0);
+    writeLzw(out, scaled, Math.max(2, depth));
+  }
+  out.byte(0x3b);
+  return new Blob([out.result() as Uint8Array<ArrayBuffer>], { type: "image/gif" });
+}
@@ -0,0 +1,197 @@
+/**
+ * GPU dithering
+ * -------------------------------------------------------------
+ * WebGL2 fragment-shader version of the per-pixel modes: Threshold, seeded
+ * Random and Ordered Bayer, in gray colour mode. The tone and filter stages
+ * still run on the CPU (`grayInput`), so both paths dither the same values;
+ * the shader adds the threshold-map or noise offset and snaps to the
+ * nearest level, one fragment per working pixel. Random reproduces the
+ * mulberry32 stream exactly (it is counter based), so results match the
+ * CPU path up to float32 rounding.
+ *
+ * `createGpuDitherer()` returns null where WebGL2 is unavailable; callers
+ * fall back to `quantize`.
+ */
+import { BAYER_2, BAYER_4, BAYER_8, frameOffset, grayInput, type Algorithm, type DitherSettings } from "./dither";
+import type { Palette } from "./palettes";
+
+export const GPU_ALGORITHMS: Algorithm[] = ["Threshold", "Random", "Ordered Bayer 2x2", "Ordered Bayer 4x4", "Ordered Bayer 8x8"];
+
+const VERTEX = `#version 300 es
+in vec2 a_position;
+void main() {
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const FRAGMENT = `#version 300 es
+precision highp float;
+precision highp int;
+uniform highp sampler2D u_values; // adjusted gray, one texel per pixel
+uniform highp sampler2D u_map; // threshold offsets, tiled over the image
+uniform highp sampler2D u_levels; // level values (linear light only)
+uniform ivec2 u_offset; // animation frame shift of the map
+uniform bool u_random;
+uniform uint u_seed;
+uniform float u_amplitude;
+uniform int u_count;
+uniform float u_step;
+uniform bool u_decoded;
+out vec4 outColor;
+
+// i-th output of mulberry32(u_seed)
+float mulberry(uint i) {
+  uint t = u_seed + (i + 1u) * 0x6D2B79F5u;
+  t = (t ^ (t >> 15u)) * (t | 1u);
+  t ^= t + (t ^ (t >> 7u)) * (t | 61u);
+  return float(t ^ (t >> 14u)) / 4294967296.0;
+}
+
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  float bias;
+  if (u_random) {
+    bias = (0.5 - mulberry(uint(p.y * textureSize(u_values, 0).x + p.x))) * u_amplitude;
+  } else {
+    bias = texelFetch(u_map, (p + u_offset) % textureSize(u_map, 0), 0).r;
+  }
+  float v = texelFetch(u_values, p, 0).r + bias;
+  int k = 0;
+  if (u_decoded) {
+    while (k < u_count - 1 && v > (texelFetch(u_levels, ivec2(k, 0), 0).r + texelFetch(u_levels, ivec2(k + 1, 0), 0).r) / 2.0) k++;
+  } else {
+    k = clamp(int(floor(v / u_step + 0.5)), 0, u_count - 1);
+  }
+  outColor = vec4(float(k) / 255.0, 0.0, 0.0, 1.0);
+}`;
+
+function compile(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error("Could not create shader");
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(gl.getShaderInfoLog(shader) || "Shader failed to compile");
+  return shader;
+}
+
+// single-channel float texture, sampled with texelFetch only
+function floatTexture(gl: WebGL2RenderingContext, unit: number, data: Float32Array, w: number, h: number): WebGLTexture | null {
+  const tex = gl.createTexture();
+  gl.activeTexture(gl.TEXTURE0 + unit);
+  gl.bindTexture(gl.TEXTURE_2D, tex);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, w, h, 0, gl.RED, gl.FLOAT, data);
+  return tex;
+}
+
+// threshold offsets for the map-based modes, in gray units
+function thresholdMap(s: DitherSettings, spread: number): { data: Float32Array; n: number } {
+  if (s.algorithm === "Threshold") return { data: Float32Array.of(128 - Math.max(0, Math.min(255, s.threshold))), n: 1 };
+  const m = s.algorithm.includes("2x2") ? BAYER_2 : s.algorithm.includes("4x4") ? BAYER_4 : BAYER_8;
+  const n = m.length;
+  const data = new Float32Array(n * n);
+  for (let y = 0; y < n; y++) for (let x = 0; x < n; x++) data[y * n + x] = (0.5 - (m[y][x] + 0.5) / (n * n)) * spread;
+  return { data, n };
+}
+
+// a worker has OffscreenCanvas, the main thread may only have <canvas>
+function webgl2Context(): WebGL2RenderingContext | null {
+  const options: WebGLContextAttributes = { antialias: false, depth: false };
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(1, 1).getContext("webgl2", options);
+  if (typeof document !== "undefined") return document.createElement("canvas").getContext("webgl2", options);
+  return null;
+}
+
+export function createGpuDitherer() {
+  const context = webgl2Context();
+  if (!context) return null;
+  const gl: WebGL2RenderingContext = context;
+
+  let program: WebGLProgram;
+  try {
+    const p = gl.createProgram();
+    if (!p) return null;
+    gl.attachShader(p, compile(gl, gl.VERTEX_SHADER, VERTEX));
+    gl.attachShader(p, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT));
+    gl.linkProgram(p);
+    if (!gl.getProgramParameter(p, gl.LINK_STATUS)) return null;
+    program = p;
+  } catch {
+    return null;
+  }
+  const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+
+  // one triangle covering the viewport
+  gl.bindBuffer(gl.ARRAY_BUFFER, gl.createBuffer());
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 3, -1, -1, 3]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, "a_position");
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+  gl.useProgram(program);
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+
+  /** Whether `s` at `w`×`h` can run on the GPU. */
+  function supports(s: DitherSettings, w: number, h: number): boolean {
+    return (
+      !gl.isContextLost() &&
+      s.colorMode === "gray" &&
+      !s.random &&
+      GPU_ALGORITHMS.includes(s.algorithm) &&
+      w <= maxSize &&
+      h <= maxSize
+    );
+  }
+
+  /** Same contract as `quantize` for supported settings. */
+  function quantize(rgba: ArrayLike<number>, w: number, h: number, s: DitherSettings, palette: Palette): Uint8Array {
+    const { values, q, order, decoded } = grayInput(rgba, w, h, s, palette);
+    const count = order.length;
+    const random = s.algorithm === "Random";
+    const map = random ? { data: Float32Array.of(0), n: 1 } : thresholdMap(s, q.spread);
+
+    const textures = [
+      floatTexture(gl, 0, values, w, h),
+      floatTexture(gl, 1, map.data, map.n, map.n),
+      floatTexture(gl, 2, Float32Array.from({ length: count }, (_, k) => q.value(k, 0)), count, 1),
+    ];
+    gl.uniform1i(uniform("u_values"), 0);
+    gl.uniform1i(uniform("u_map"), 1);
+    gl.uniform1i(uniform("u_levels"), 2);
+    gl.uniform2i(uniform("u_offset"), ...frameOffset(s.frame));
+    gl.uniform1i(uniform("u_random"), random ? 1 : 0);
+    gl.uniform1ui(uniform("u_seed"), ((s.seed ?? 0) + (s.frame ?? 0)) >>> 0);
+    gl.uniform1f(uniform("u_amplitude"), (q.spread * (s.noiseAmplitude ?? 100)) / 100);
+    gl.uniform1i(uniform("u_count"), count);
+    gl.uniform1f(uniform("u_step"), q.spread);
+    gl.uniform1i(uniform("u_decoded"), decoded ? 1 : 0);
+
+    // render level indices into an offscreen RGBA8 target and read them back
+    const target = gl.createTexture();
+    gl.activeTexture(gl.TEXTURE3);
+    gl.bindTexture(gl.TEXTURE_2D, target);
+    gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA8, w, h);
+    const fb = gl.createFramebuffer();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, fb);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target, 0);
+    gl.viewport(0, 0, w, h);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    const out = new Uint8Array(w * h * 4);
+    gl.readPixels(0, 0, w, h, gl.RGBA, gl.UNSIGNED_BYTE, out);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.deleteFramebuffer(fb);
+    for (const tex of [...textures, target]) gl.deleteTexture(tex);
+
+    const mask = new Uint8Array(w * h);
+    for (let p = 0; p < mask.length; p++) mask[p] = order[out[p * 4]];
+    return mask;
+  }
+
+  function dispose() {
+    gl.getExtension("WEBGL_lose_context")?.loseContext();
+  }
+
+  return { supports, quantize, dispose };
+}
+
+export type GpuDitherer = NonNullable<ReturnType<typeof createGpuDitherer>>;
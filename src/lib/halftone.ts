@@ -0,0 +1,67 @@
+/**
+ * Clustered-dot (AM) halftone screens
+ * -------------------------------------------------------------
+ * The image plane is rotated by the screen angle and divided into square
+ * cells. Inside a cell, a PostScript-style spot function orders the pixels
+ * from the rim to the centre; the spot value is mapped through its own
+ * area distribution so a threshold of t covers exactly t of the cell and
+ * tones reproduce evenly for every shape.
+ */
+
+export const HALFTONE_SHAPES = ["Round", "Ellipse", "Line", "Square"] as const;
+
+export type HalftoneShape = typeof HALFTONE_SHAPES[number];
+
+// x, y in [-1, 1] relative to the cell centre; larger = inked first
+const SPOTS: Record<HalftoneShape, (x: number, y: number) => number> = {
+  Round: (x, y) => 1 - (x * x + y * y),
+  Ellipse: (x, y) => 1 - (x * x + (y * y) / 0.36),
+  Line: (_x, y) => 1 - Math.abs(y),
+  Square: (x, y) => 1 - Math.max(Math.abs(x), Math.abs(y)),
+};
+
+const SAMPLES = 64;
+const areaCache = new Map<HalftoneShape, Float64Array>();
+
+// Sorted spot values sampled over one cell
+function spotArea(shape: HalftoneShape): Float64Array {
+  let sorted = areaCache.get(shape);
+  if (!sorted) {
+    sorted = new Float64Array(SAMPLES * SAMPLES);
+    for (let j = 0; j < SAMPLES; j++) {
+      for (let i = 0; i < SAMPLES; i++) {
+        sorted[j * SAMPLES + i] = SPOTS[shape](((i + 0.5) / SAMPLES) * 2 - 1, ((j + 0.5) / SAMPLES) * 2 - 1);
+      }
+    }
+    sorted.sort();
+    areaCache.set(shape, sorted);
+  }
+  return sorted;
+}
+
+/**
+ * Threshold function for a screen: returns a value in [0,1) per pixel,
+ * used exactly like a normalized Bayer entry.
+ */
+export function halftoneThreshold(shape: HalftoneShape, cellSize: number, angleDeg: number): (x: number, y: number) => number {
+  const spot = SPOTS[shape];
+  const sorted = spotArea(shape);
+  const a = (angleDeg * Math.PI) / 180;
+  const cos = Math.cos(a) / cellSize;
+  const sin = Math.sin(a) / cellSize;
+  return (x, y) => {
+    // sample at the pixel centre in rotated cell coordinates
+    const u = (x + 0.5) * cos + (y + 0.5) * sin;
+    const v = -(x + 0.5) * sin + (y + 0.5) * cos;
+    const s = spot((u - Math.floor(u)) * 2 - 1, (v - Math.floor(v)) * 2 - 1);
+    // fraction of the cell with a smaller spot value (binary search)
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid] < s) lo = mid + 1;
+      else hi = mid;
+    }
+    return Math.min(lo / sorted.length, 1 - 1e-6);
+  };
+}
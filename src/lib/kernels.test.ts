@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { DIFFUSION_KERNELS, kernelTaps, KERNELS, parseKernel } from "./kernels";
+
+describe("kernelTaps", () => {
+  it("flattens Floyd–Steinberg to its four forward taps", () => {
+    expect(kernelTaps(KERNELS["Floyd–Steinberg"])).toEqual([
+      [1, 0, 7 / 16],
+      [-1, 1, 3 / 16],
+      [0, 1, 5 / 16],
+      [1, 1, 1 / 16],
+    ]);
+  });
+
+  it("never sends error to the current pixel or back along the scanline", () => {
+    for (const name of DIFFUSION_KERNELS) {
+      for (const [dx, dy] of kernelTaps(KERNELS[name])) expect(dy > 0 || dx > 0).toBe(true);
+    }
+  });
+
+  it("spreads the whole error except for Atkinson's three quarters", () => {
+    for (const name of DIFFUSION_KERNELS) {
+      const sum = kernelTaps(KERNELS[name]).reduce((s, [, , w]) => s + w, 0);
+      expect(sum).toBeCloseTo(name === "Atkinson" ? 0.75 : 1, 10);
+    }
+  });
+});
+
+describe("parseKernel", () => {
+  it("reads the literature layout with * marking the current pixel", () => {
+    expect(parseKernel("- * 7\n3 5 1")).toEqual(KERNELS["Floyd–Steinberg"]);
+  });
+
+  it("accepts commas, semicolons, x and . padding", () => {
+    expect(parseKernel(". x 7; 3,5,1")).toEqual(KERNELS["Floyd–Steinberg"]);
+  });
+
+  it("divides by the sum of the taps that are used", () => {
+    // the 9 left of the origin is ignored
+    expect(parseKernel("9 * 1\n1 1 1")?.divisor).toBe(4);
+  });
+
+  it.each([
+    ["empty text", ""],
+    ["no current pixel", "0 0 7\n3 5 1"],
+    ["a negative weight", "- * 7\n3 -5 1"],
+    ["a word", "- * seven"],
+    ["no forward weights", "1 *\n0 0"],
+  ])("rejects %s", (_, text) => {
+    expect(parseKernel(text)).toBeNull();
+  });
+});
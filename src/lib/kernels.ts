@@ -0,0 +1,151 @@
+/**
+ * Error-diffusion kernels
+ * -------------------------------------------------------------
+ * Each kernel is written the way it appears in the literature: rows of
+ * weights starting at the current scanline, with `origin` the column of
+ * the current pixel. Weights at or left of the origin on the first row
+ * are ignored. Every weight is divided by `divisor`; Atkinson's divisor
+ * deliberately exceeds the weight sum so only 3/4 of the error spreads.
+ */
+
+export type DiffusionKernel = {
+  origin: number;
+  divisor: number;
+  rows: number[][];
+};
+
+/** Flattened form used by the diffusion loop: [dx, dy, weight]. */
+export type KernelTap = [number, number, number];
+
+export const DIFFUSION_KERNELS = [
+  "Floyd–Steinberg",
+  "Atkinson",
+  "Jarvis–Judice–Ninke",
+  "Stucki",
+  "Burkes",
+  "Sierra-3",
+  "Sierra 2-row",
+  "Sierra Lite",
+] as const;
+
+export type KernelName = typeof DIFFUSION_KERNELS[number];
+
+export const KERNELS: Record<KernelName, DiffusionKernel> = {
+  "Floyd–Steinberg": {
+    origin: 1,
+    divisor: 16,
+    rows: [
+      [0, 0, 7],
+      [3, 5, 1],
+    ],
+  },
+  Atkinson: {
+    origin: 1,
+    divisor: 8,
+    rows: [
+      [0, 0, 1, 1],
+      [1, 1, 1, 0],
+      [0, 1, 0, 0],
+    ],
+  },
+  "Jarvis–Judice–Ninke": {
+    origin: 2,
+    divisor: 48,
+    rows: [
+      [0, 0, 0, 7, 5],
+      [3, 5, 7, 5, 3],
+      [1, 3, 5, 3, 1],
+    ],
+  },
+  Stucki: {
+    origin: 2,
+    divisor: 42,
+    rows: [
+      [0, 0, 0, 8, 4],
+      [2, 4, 8, 4, 2],
+      [1, 2, 4, 2, 1],
+    ],
+  },
+  Burkes: {
+    origin: 2,
+    divisor: 32,
+    rows: [
+      [0, 0, 0, 8, 4],
+      [2, 4, 8, 4, 2],
+    ],
+  },
+  "Sierra-3": {
+    origin: 2,
+    divisor: 32,
+    rows: [
+      [0, 0, 0, 5, 3],
+      [2, 4, 5, 4, 2],
+      [0, 2, 3, 2, 0],
+    ],
+  },
+  "Sierra 2-row": {
+    origin: 2,
+    divisor: 16,
+    rows: [
+      [0, 0, 0, 4, 3],
+      [1, 2, 3, 2, 1],
+    ],
+  },
+  "Sierra Lite": {
+    origin: 1,
+    divisor: 4,
+    rows: [
+      [0, 0, 2],
+      [1, 1, 0],
+    ],
+  },
+};
+
+export function kernelTaps(k: DiffusionKernel): KernelTap[] {
+  const taps: KernelTap[] = [];
+  k.rows.forEach((row, dy) => {
+    row.forEach((weight, col) => {
+      const dx = col - k.origin;
+      if (!weight || (dy === 0 && dx <= 0)) return;
+      taps.push([dx, dy, weight / k.divisor]);
+    });
+  });
+  return taps;
+}
+
+/**
+ * Parses a user kernel: one row per line, weights separated by spaces or
+ * commas, with `*` (or `x`) marking the current pixel on the first line and
+ * `-` or `.` padding empty cells so rows line up. The divisor is the weight
+ * sum. Returns null when the text is not a kernel.
+ */
+export function parseKernel(text: string): DiffusionKernel | null {
+  const lines = text
+    .split(/[\n;]/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+  if (!lines.length) return null;
+
+  let origin = -1;
+  const rows: number[][] = [];
+  for (let r = 0; r < lines.length; r++) {
+    const cells = lines[r].split(/[\s,]+/);
+    const row: number[] = [];
+    for (let c = 0; c < cells.length; c++) {
+      if (r === 0 && /^[*xX]$/.test(cells[c])) {
+        origin = c;
+        row.push(0);
+        continue;
+      }
+      const v = /^[-.]$/.test(cells[c]) ? 0 : Number(cells[c]);
+      if (!Number.isFinite(v) || v < 0) return null;
+      row.push(v);
+    }
+    rows.push(row);
+  }
+  if (origin < 0) return null;
+
+  const divisor = kernelTaps({ origin, divisor: 1, rows }).reduce((sum, [, , w]) => sum + w, 0);
+  if (!divisor) return null;
+  return { origin, divisor, rows };
+}
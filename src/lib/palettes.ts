@@ -0,0 +1,39 @@
+/**
+ * Palettes
+ * -------------------------------------------------------------
+ * A palette is an ordered list of hex colours. Two-colour palettes list
+ * the ink first and the paper second; as in the original fg/bg editor the
+ * ink marks the bright side of the threshold (Invert flips it). Longer
+ * ones follow their source (hardware order for CGA, dark-to-light for the
+ * Game Boy ramp).
+ */
+
+export type Palette = string[];
+export type RGB = [number, number, number];
+
+export const PALETTES: Record<string, Palette> = {
+  "Black & White": ["#000000", "#ffffff"],
+  Sepia: ["#3e2f1c", "#f3e8d0"],
+  "Indigo & Ivory": ["#1e1b4b", "#fffff0"],
+  "Teal & Sand": ["#0f766e", "#fbf1c7"],
+  "Crimson & Cream": ["#8b0000", "#fff4f4"],
+  "Forest & Sky": ["#064e3b", "#f0f9ff"],
+  "Grayscale 4": ["#000000", "#555555", "#aaaaaa", "#ffffff"],
+  "Game Boy": ["#0f380f", "#306230", "#8bac0f", "#9bbc0f"],
+  "CGA Mode 4": ["#000000", "#55ffff", "#ff55ff", "#ffffff"],
+  "CGA 16": [
+    "#000000", "#0000aa", "#00aa00", "#00aaaa", "#aa0000", "#aa00aa", "#aa5500", "#aaaaaa",
+    "#555555", "#5555ff", "#55ff55", "#55ffff", "#ff5555", "#ff55ff", "#ffff55", "#ffffff",
+  ],
+};
+
+export function hexToRgb(hex: string): RGB {
+  let h = hex.replace(/^#/, "");
+  if (h.length === 3) h = h.replace(/./g, (c) => c + c);
+  const n = parseInt(h.slice(0, 6), 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+export function rgbToHex([r, g, b]: RGB): string {
+  return "#" + [r, g, b].map((v) => v.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { quantize } from "./dither";
+import { exportJob, runPipeline, shrinkSize, type PipelineJob } from "./pipeline";
+import { resample } from "./resample";
+import { DEFAULT_SETTINGS } from "./settings";
+
+const palette = ["#000000", "#ffffff"];
+
+// a diagonal ramp, so every resample method gives a different result
+function ramp(w: number, h: number): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(w * h * 4);
+  for (let p = 0; p < w * h; p++) {
+    const v = Math.round((((p % w) + Math.floor(p / w)) * 255) / (w + h - 2));
+    rgba.set([v, v, v, 255], p * 4);
+  }
+  return rgba;
+}
+
+describe("shrinkSize", () => {
+  it("leaves sources up to 4× the grid at their own size", () => {
+    expect(shrinkSize({ w: 800, h: 600 }, { w: 200, h: 150 })).toEqual({ w: 800, h: 600 });
+    expect(shrinkSize({ w: 800, h: 600 }, { w: 400, h: 300 })).toEqual({ w: 800, h: 600 });
+  });
+
+  it("caps larger sources at 4× the grid", () => {
+    expect(shrinkSize({ w: 8000, h: 6000 }, { w: 250, h: 188 })).toEqual({ w: 1000, h: 752 });
+  });
+});
+
+describe("exportJob", () => {
+  const look = { ditherSize: 4, resample: "Lanczos" as const };
+
+  it("passes the source at its own size with the grid of the export size", () => {
+    const pixels = ramp(40, 24);
+    expect(exportJob(pixels, 40, 24, { w: 20, h: 12 }, look)).toEqual({ pixels, width: 5, height: 3, source: { width: 40, height: 24, method: "Lanczos" } });
+  });
+
+  it("gives the editor's worker job and the CLI's job the same bytes", () => {
+    const settings = { ...DEFAULT_SETTINGS, ...look, customKernel: null };
+    const size = { w: 60, h: 36 };
+    // the editor's job crosses to the worker by structured clone, with its extra fields
+    const editor = structuredClone({ ...exportJob(ramp(120, 72), 120, 72, size, settings), settings, palette, pixelSize: 4, paint: false });
+    const cli = { ...exportJob(ramp(120, 72), 120, 72, size, settings), settings, palette };
+    const expected = quantize(resample(resample(ramp(120, 72), 120, 72, 60, 36, "Box"), 60, 36, 15, 9, "Lanczos"), 15, 9, settings, palette);
+    expect(runPipeline(editor)).toEqual(expected);
+    expect(runPipeline(cli)).toEqual(expected);
+  });
+});
+
+describe("runPipeline", () => {
+  const settings = { ...DEFAULT_SETTINGS, algorithm: "Floyd–Steinberg" as const, customKernel: null };
+
+  it("resamples the source to the grid, then quantizes", () => {
+    const pixels = ramp(40, 24);
+    const job: PipelineJob = { pixels, width: 10, height: 6, source: { width: 40, height: 24, method: "Lanczos" }, settings, palette };
+    expect(runPipeline(job)).toEqual(quantize(resample(pixels, 40, 24, 10, 6, "Lanczos"), 10, 6, settings, palette));
+  });
+
+  it("swaps in another quantize step", () => {
+    const job: PipelineJob = { pixels: ramp(4, 4), width: 4, height: 4, settings, palette };
+    expect(Array.from(runPipeline(job, (_, w, h) => new Uint8Array(w * h).fill(1)))).toEqual(new Array(16).fill(1));
+  });
+
+  it("lays fully covered regions over the main result", () => {
+    const regionSettings = { ...settings, algorithm: "Threshold" as const, threshold: 0 };
+    const job: PipelineJob = {
+      pixels: ramp(8, 8),
+      width: 8,
+      height: 8,
+      settings,
+      palette,
+      regions: [{ settings: regionSettings, coverage: new Uint8Array(64).fill(255), feather: 0 }],
+    };
+    expect(runPipeline(job)).toEqual(quantize(ramp(8, 8), 8, 8, regionSettings, palette));
+  });
+
+  it("reports progress after each stage", () => {
+    const fractions: number[] = [];
+    const job: PipelineJob = {
+      pixels: ramp(16, 16),
+      width: 8,
+      height: 8,
+      source: { width: 16, height: 16, method: "Box" },
+      settings,
+      palette,
+      regions: [{ settings, coverage: new Uint8Array(64), feather: 0 }],
+    };
+    runPipeline(job, undefined, (f) => fractions.push(f));
+    expect(fractions).toEqual([1 / 3, 2 / 3, 1]);
+  });
+});
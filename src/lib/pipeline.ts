@@ -0,0 +1,78 @@
+/**
+ * Dither pipeline
+ * -------------------------------------------------------------
+ * The resample → tone → dither → regions sequence behind every preview and
+ * export, without any browser dependencies. The worker runs it for the
+ * editor and the `dither` command-line tool runs it in Node, so both turn
+ * the same pixels and settings into the same palette-index mask. Exports
+ * hand it the source at its own size and every scaling step happens here,
+ * so the editor and the CLI never depend on how a canvas scales.
+ */
+import { quantize } from "./dither";
+import type { DitherJob } from "./ditherClient";
+import { compositeRegions, regionWeights } from "./regions";
+import { resample, workingSize } from "./resample";
+import type { EditorSettings } from "./settings";
+
+export type PipelineJob = Pick<DitherJob, "pixels" | "width" | "height" | "source" | "settings" | "palette" | "regions">;
+
+export type QuantizeStep = typeof quantize;
+
+type Size = { w: number; h: number };
+
+/**
+ * The size a source is area-averaged down to before its resample method
+ * brings it to `grid`: at most 4× the grid on each side, so wide kernels
+ * stay a few taps across however large the photo. Smaller sources skip it.
+ */
+export function shrinkSize(source: Size, grid: Size): Size {
+  return { w: Math.min(source.w, grid.w * 4), h: Math.min(source.h, grid.h * 4) };
+}
+
+/**
+ * The pipeline input for exporting a `srcW`×`srcH` source at `size`: the
+ * source pixels as they are, on the grid `look` divides `size` into. The
+ * editor and the CLI both build their export jobs here.
+ */
+export function exportJob(
+  pixels: Uint8ClampedArray,
+  srcW: number,
+  srcH: number,
+  size: Size,
+  look: Pick<EditorSettings, "ditherSize" | "resample">
+): Pick<PipelineJob, "pixels" | "width" | "height" | "source"> {
+  const grid = workingSize(size.w, size.h, look.ditherSize);
+  return { pixels, width: grid.w, height: grid.h, source: { width: srcW, height: srcH, method: look.resample } };
+}
+
+// Box shrink to `shrinkSize`, then the job's own method onto the grid
+function toGrid({ pixels, width: w, height: h, source }: PipelineJob): Uint8ClampedArray {
+  if (!source) return pixels;
+  const shrunk = shrinkSize({ w: source.width, h: source.height }, { w, h });
+  const small = shrunk.w === source.width && shrunk.h === source.height ? pixels : resample(pixels, source.width, source.height, shrunk.w, shrunk.h, "Box");
+  return resample(small, shrunk.w, shrunk.h, w, h, source.method);
+}
+
+/**
+ * Palette-index mask for `job` on its working grid; `quantizeWith` swaps the
+ * dither step (the GPU path). `onProgress` gets the finished fraction after
+ * each stage: the resample, the main dither and every region.
+ */
+export function runPipeline(job: PipelineJob, quantizeWith: QuantizeStep = quantize, onProgress?: (fraction: number) => void): Uint8Array {
+  const { width: w, height: h, source, settings, palette, regions = [] } = job;
+  const stages = (source ? 1 : 0) + 1 + regions.length;
+  let done = 0;
+  const step = () => onProgress?.(++done / stages);
+
+  const pixels = toGrid(job);
+  if (source) step();
+  const mask = quantizeWith(pixels, w, h, settings, palette);
+  step();
+  if (!regions.length) return mask;
+  const layers = regions.map((r) => {
+    const layer = { mask: quantizeWith(pixels, w, h, r.settings, palette), weights: regionWeights(r.coverage, w, h, r.feather) };
+    step();
+    return layer;
+  });
+  return compositeRegions(mask, layers, w, h);
+}
@@ -0,0 +1,77 @@
+import { PNG } from "pngjs";
+import { describe, expect, it } from "vitest";
+import { hexToRgb, type Palette } from "./palettes";
+import { bitDepthFor, crc32, encodeIndexedPng } from "./png";
+
+async function encode(indices: number[], w: number, h: number, palette: Palette, options?: Parameters<typeof encodeIndexedPng>[4]) {
+  return new Uint8Array(await (await encodeIndexedPng(indices, w, h, palette, options)).arrayBuffer());
+}
+
+// RGB triplets of the decoded image, row by row
+function pixels(bytes: Uint8Array): { width: number; height: number; rgb: number[][] } {
+  const png = PNG.sync.read(Buffer.from(bytes));
+  const rgb: number[][] = [];
+  for (let i = 0; i < png.data.length; i += 4) rgb.push([png.data[i], png.data[i + 1], png.data[i + 2]]);
+  return { width: png.width, height: png.height, rgb };
+}
+
+// type → data of every chunk, in file order
+function chunks(bytes: Uint8Array): [string, Uint8Array][] {
+  const out: [string, Uint8Array][] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset);
+  for (let o = 8; o < bytes.length; ) {
+    const length = view.getUint32(o);
+    out.push([String.fromCharCode(...bytes.subarray(o + 4, o + 8)), bytes.subarray(o + 8, o + 8 + length)]);
+    o += 12 + length;
+  }
+  return out;
+}
+
+describe("crc32", () => {
+  it("matches the IEND checksum every PNG ends with", () => {
+    expect(crc32(new TextEncoder().encode("IEND"))).toBe(0xae426082);
+  });
+});
+
+describe("bitDepthFor", () => {
+  it("uses the smallest depth that holds the palette", () => {
+    expect([2, 3, 4, 5, 16, 17, 256].map(bitDepthFor)).toEqual([1, 2, 2, 4, 4, 8, 8]);
+  });
+});
+
+describe("encodeIndexedPng", () => {
+  const palette = ["#000000", "#ff8000", "#00ff00", "#ffffff"];
+
+  it("round-trips indices through a standard decoder", async () => {
+    const indices = [0, 1, 2, 3, 3, 2, 1, 0, 0, 3, 0, 3];
+    const { width, height, rgb } = pixels(await encode(indices, 4, 3, palette));
+    expect([width, height]).toEqual([4, 3]);
+    expect(rgb).toEqual(indices.map((k) => hexToRgb(palette[k])));
+  });
+
+  it("upscales every index to a scale × scale block", async () => {
+    const { width, height, rgb } = pixels(await encode([0, 1, 1, 0], 2, 2, ["#000000", "#ffffff"], { scale: 3 }));
+    expect([width, height]).toEqual([6, 6]);
+    const lit = rgb.map(([r]) => (r ? 1 : 0)).join("");
+    expect(lit).toBe("000111".repeat(3) + "111000".repeat(3));
+  });
+
+  it("writes the palette at the smallest bit depth", async () => {
+    const bytes = await encode([0, 1, 0, 1], 2, 2, ["#000000", "#ffffff"]);
+    const [type, ihdr] = chunks(bytes)[0];
+    expect(type).toBe("IHDR");
+    expect([ihdr[8], ihdr[9]]).toEqual([1, 3]); // 1-bit, indexed
+    const plte = chunks(bytes).find(([t]) => t === "PLTE")![1];
+    expect(Array.from(plte)).toEqual([0, 0, 0, 255, 255, 255]);
+  });
+
+  it("records the DPI as pixels per metre", async () => {
+    const phys = chunks(await encode([0], 1, 1, ["#000000", "#ffffff"], { dpi: 300 })).find(([t]) => t === "pHYs")![1];
+    const view = new DataView(phys.buffer, phys.byteOffset);
+    expect([view.getUint32(0), view.getUint32(4), phys[8]]).toEqual([11811, 11811, 1]);
+  });
+
+  it("leaves the resolution out without a DPI", async () => {
+    expect(chunks(await encode([0], 1, 1, ["#000000", "#ffffff"])).map(([t]) => t)).toEqual(["IHDR", "PLTE", "IDAT", "IEND"]);
+  });
+});
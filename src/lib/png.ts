@@ -0,0 +1,122 @@
+/**
+ * Indexed PNG encoder
+ * -------------------------------------------------------------
+ * Writes palette-index buffers straight to a palette PNG (1/2/4/8-bit),
+ * upscaling by an integer pixel size row by row. Nothing is ever drawn
+ * to a canvas, so output size is limited only by memory for the
+ * compressed file. Compression uses the platform CompressionStream.
+ */
+import { hexToRgb, type Palette } from "./palettes";
+
+export type PngOptions = {
+  scale?: number; // integer pixel size, defaults to 1
+  dpi?: number; // written as a pHYs chunk when set
+};
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+export function crc32(bytes: Uint8Array, crc = 0): number {
+  let c = ~crc >>> 0;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 255] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+export function bitDepthFor(colors: number): 1 | 2 | 4 | 8 {
+  return colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8;
+}
+
+/** Zlib-compresses a sequence of byte chunks. */
+async function deflate(parts: Iterable<Uint8Array>): Promise<Uint8Array> {
+  const cs = new CompressionStream("deflate");
+  const result = new Response(cs.readable).arrayBuffer();
+  const writer = cs.writable.getWriter();
+  for (const part of parts) await writer.write(part as Uint8Array<ArrayBuffer>);
+  await writer.close();
+  return new Uint8Array(await result);
+}
+
+export async function encodeIndexedPng(
+  indices: ArrayLike<number>,
+  w: number,
+  h: number,
+  palette: Palette,
+  { scale = 1, dpi }: PngOptions = {}
+): Promise<Blob> {
+  const outW = w * scale;
+  const outH = h * scale;
+  const depth = bitDepthFor(palette.length);
+  const perByte = 8 / depth;
+  const rowBytes = 1 + Math.ceil(outW / perByte); // leading filter byte (0 = none)
+
+  const ihdr = new Uint8Array(13);
+  const hv = new DataView(ihdr.buffer);
+  hv.setUint32(0, outW);
+  hv.setUint32(4, outH);
+  ihdr[8] = depth;
+  ihdr[9] = 3; // indexed colour
+
+  const plte = new Uint8Array(palette.length * 3);
+  palette.forEach((c, k) => plte.set(hexToRgb(c), k * 3));
+
+  // one packed output row per source row, repeated `scale` times
+  function* rows() {
+    const BATCH = 1 << 16;
+    const row = new Uint8Array(rowBytes);
+    let batch = new Uint8Array(Math.max(rowBytes, BATCH - (BATCH % rowBytes)));
+    let used = 0;
+    for (let y = 0; y < h; y++) {
+      row.fill(0);
+      for (let x = 0; x < outW; x++) {
+        const k = indices[y * w + Math.floor(x / scale)];
+        const shift = 8 - depth * ((x % perByte) + 1);
+        row[1 + Math.floor(x / perByte)] |= k << shift;
+      }
+      for (let r = 0; r < scale; r++) {
+        if (used + rowBytes > batch.length) {
+          yield batch.subarray(0, used);
+          batch = new Uint8Array(batch.length);
+          used = 0;
+        }
+        batch.set(row, used);
+        used += rowBytes;
+      }
+    }
+    if (used) yield batch.subarray(0, used);
+  }
+
+  const parts: Uint8Array[] = [
+    new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk("IHDR", ihdr),
+    chunk("PLTE", plte),
+  ];
+  if (dpi) {
+    const phys = new Uint8Array(9);
+    const pv = new DataView(phys.buffer);
+    const ppm = Math.round(dpi / 0.0254);
+    pv.setUint32(0, ppm);
+    pv.setUint32(4, ppm);
+    phys[8] = 1; // metres
+    parts.push(chunk("pHYs", phys));
+  }
+  parts.push(chunk("IDAT", await deflate(rows())));
+  parts.push(chunk("IEND", new Uint8Array(0)));
+  return new Blob(parts as Uint8Array<ArrayBuffer>[], { type: "image/png" });
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { BUILT_IN_PRESETS, parsePresetFile, presetFile } from "./presets";
+import { DEFAULT_SETTINGS, SETTINGS_VERSION, SettingsError } from "./settings";
+
+describe("parsePresetFile", () => {
+  it("round-trips a preset list", () => {
+    expect(parsePresetFile(JSON.parse(JSON.stringify(presetFile(BUILT_IN_PRESETS))))).toEqual(BUILT_IN_PRESETS);
+  });
+
+  it("reads a single preset and a bare settings object", () => {
+    expect(parsePresetFile({ version: SETTINGS_VERSION, name: " Soft ", settings: { gamma: 1.5 } })).toEqual([
+      { name: "Soft", settings: { ...DEFAULT_SETTINGS, gamma: 1.5 } },
+    ]);
+    expect(parsePresetFile({ gamma: 1.5 })).toEqual([{ name: "Imported", settings: { ...DEFAULT_SETTINGS, gamma: 1.5 } }]);
+  });
+
+  it("rejects a file with no presets", () => {
+    expect(() => parsePresetFile({ version: SETTINGS_VERSION, presets: [] })).toThrow(new SettingsError("No presets in file"));
+  });
+
+  it("rejects files that are not objects", () => {
+    expect(() => parsePresetFile(null)).toThrow(SettingsError);
+    expect(() => parsePresetFile({ version: SETTINGS_VERSION, presets: [3] })).toThrow(SettingsError);
+  });
+});
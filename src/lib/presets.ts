@@ -0,0 +1,78 @@
+/**
+ * Presets
+ * -------------------------------------------------------------
+ * Named settings snapshots. Built-in starters ship with the editor; user
+ * presets live in localStorage and travel as JSON files using the same
+ * versioned envelope as `settings.ts`.
+ */
+import { DEFAULT_SETTINGS, parseSettings, SETTINGS_VERSION, SettingsError, type EditorSettings } from "./settings";
+
+export type Preset = { name: string; settings: EditorSettings };
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  { name: "Default", settings: DEFAULT_SETTINGS },
+  { name: "Classic Mac", settings: { ...DEFAULT_SETTINGS, algorithm: "Atkinson", ditherSize: 2 } },
+  {
+    name: "Newspaper",
+    settings: { ...DEFAULT_SETTINGS, algorithm: "Halftone", paletteKey: "Sepia", ditherSize: 2, halftoneCell: 6, contrast: 15 },
+  },
+  { name: "Game Boy", settings: { ...DEFAULT_SETTINGS, algorithm: "Ordered Bayer 4x4", paletteKey: "Game Boy", ditherSize: 4 } },
+  {
+    name: "CGA",
+    settings: { ...DEFAULT_SETTINGS, algorithm: "Ordered Bayer 8x8", paletteKey: "CGA Mode 4", colorMode: "rgb", ditherSize: 4 },
+  },
+  { name: "Blue Noise Soft", settings: { ...DEFAULT_SETTINGS, algorithm: "Blue Noise", gamma: 1.2, ditherSize: 2 } },
+];
+
+const STORAGE_KEY = "dithering-editor.presets";
+
+function toEntry(p: Preset) {
+  return { name: p.name, settings: p.settings };
+}
+
+function parseEntry(raw: unknown, version: number): Preset {
+  if (typeof raw !== "object" || raw === null) throw new SettingsError("Malformed preset");
+  const { name, settings } = raw as { name?: unknown; settings?: unknown };
+  return {
+    name: typeof name === "string" && name.trim() ? name.trim() : "Imported",
+    settings: parseSettings({ version, settings }),
+  };
+}
+
+/**
+ * Reads a preset file: `{ version, presets: [...] }`, a single
+ * `{ version, name?, settings }`, or a bare settings object. Always
+ * returns at least one preset.
+ */
+export function parsePresetFile(input: unknown): Preset[] {
+  if (typeof input !== "object" || input === null) throw new SettingsError("Not a preset file");
+  const obj = input as Record<string, unknown>;
+  const version = typeof obj.version === "number" ? obj.version : 0;
+  if (Array.isArray(obj.presets)) {
+    if (!obj.presets.length) throw new SettingsError("No presets in file");
+    return obj.presets.map((p) => parseEntry(p, version));
+  }
+  if ("settings" in obj) return [parseEntry(obj, version)];
+  return [{ name: "Imported", settings: parseSettings(obj) }];
+}
+
+export function presetFile(presets: Preset[]) {
+  return { version: SETTINGS_VERSION, presets: presets.map(toEntry) };
+}
+
+export function loadUserPresets(): Preset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parsePresetFile(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: Preset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presetFile(presets)));
+  } catch {
+    // storage full or disabled: presets stay in memory for this session
+  }
+}
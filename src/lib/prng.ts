@@ -0,0 +1,23 @@
+/**
+ * Seeded PRNG
+ * -------------------------------------------------------------
+ * mulberry32: tiny, fast and good enough for dither noise. The same seed
+ * always yields the same sequence, so seeded output is reproducible
+ * across reprocesses, sessions and exports.
+ */
+
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A fresh 32-bit seed for "randomize" buttons. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -0,0 +1,37 @@
+/**
+ * Raster input
+ * -------------------------------------------------------------
+ * Decodes an image into an RGBA buffer at an arbitrary size by drawing it
+ * through a short strip canvas, so the full-size image never has to fit
+ * in a single canvas.
+ */
+
+const BAND_ROWS = 256;
+
+/** Reads `src` (sized `srcW`×`srcH`) resampled to `w`×`h`. */
+export function readPixels(src: CanvasImageSource, srcW: number, srcH: number, w: number, h: number): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(w * h * 4);
+  const band = document.createElement("canvas");
+  band.width = w;
+  band.height = Math.min(h, BAND_ROWS);
+  const ctx = band.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D is not available");
+
+  const sy = srcH / h; // source rows per output row
+  for (let y0 = 0; y0 < h; y0 += band.height) {
+    const rows = Math.min(band.height, h - y0);
+    ctx.clearRect(0, 0, w, band.height);
+    ctx.drawImage(src, 0, y0 * sy, srcW, rows * sy, 0, 0, w, rows);
+    out.set(ctx.getImageData(0, 0, w, rows).data, y0 * w * 4);
+  }
+  return out;
+}
+
+/** Wraps a decoded RGBA frame in a canvas so it can be drawn and resampled. */
+export function rgbaToCanvas(rgba: Uint8ClampedArray, w: number, h: number): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  canvas.getContext("2d")?.putImageData(new ImageData(rgba as Uint8ClampedArray<ArrayBuffer>, w, h), 0, 0);
+  return canvas;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { compositeRegions, createRegion, REGION_COLORS, regionWeights } from "./regions";
+
+const W = 16;
+const H = 8;
+
+// coverage over the right half of the frame
+function rightHalf(): Uint8Array {
+  return Uint8Array.from({ length: W * H }, (_, p) => (p % W >= W / 2 ? 255 : 0));
+}
+
+describe("createRegion", () => {
+  it("starts from the given look and cycles the overlay colours", () => {
+    const look = { algorithm: "Atkinson", threshold: 100, brightness: 5, contrast: -5, gamma: 1.2, invert: true } as const;
+    const region = createRegion(REGION_COLORS.length + 2, "Sky", look);
+    expect(region).toMatchObject({ ...look, name: "Sky", enabled: true, color: REGION_COLORS[1] });
+  });
+});
+
+describe("regionWeights", () => {
+  it("maps hard coverage to 0..1 without feathering", () => {
+    expect(Array.from(regionWeights(rightHalf(), W, H, 0).subarray(0, W))).toEqual([...new Array(8).fill(0), ...new Array(8).fill(1)]);
+  });
+
+  it("softens the border when feathered", () => {
+    const row = regionWeights(rightHalf(), W, H, 2).subarray(0, W);
+    expect(row[0]).toBeCloseTo(0, 3);
+    expect(row[W - 1]).toBeCloseTo(1, 3);
+    expect(row[7]).toBeGreaterThan(0.1);
+    expect(row[8]).toBeLessThan(0.9);
+    for (let x = 1; x < W; x++) expect(row[x]).toBeGreaterThanOrEqual(row[x - 1]);
+  });
+});
+
+describe("compositeRegions", () => {
+  it("takes the region's index inside a hard mask only", () => {
+    const base = new Uint8Array(W * H);
+    const layer = { mask: new Uint8Array(W * H).fill(1), weights: regionWeights(rightHalf(), W, H, 0) };
+    expect(compositeRegions(base, [layer], W, H)).toEqual(rightHalf().map((v) => (v ? 1 : 0)));
+  });
+
+  it("lets later regions win where they overlap", () => {
+    const full = new Float32Array(W * H).fill(1);
+    const out = compositeRegions(new Uint8Array(W * H), [{ mask: new Uint8Array(W * H).fill(1), weights: full }, { mask: new Uint8Array(W * H).fill(2), weights: full }], W, H);
+    expect(out.every((v) => v === 2)).toBe(true);
+  });
+
+  it("blends a half weight through the ordered pattern", () => {
+    const layer = { mask: new Uint8Array(W * H).fill(1), weights: new Float32Array(W * H).fill(0.5) };
+    const out = compositeRegions(new Uint8Array(W * H), [layer], W, H);
+    expect(out.reduce((n, v) => n + v, 0)).toBe((W * H) / 2);
+  });
+});
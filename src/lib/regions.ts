@@ -0,0 +1,71 @@
+/**
+ * Region masks
+ * -------------------------------------------------------------
+ * Named regions painted over the image, each dithered with its own
+ * algorithm, threshold and basic tonal settings. Every region is dithered
+ * over the full frame (so error diffusion runs without interruption) and
+ * the results are composited by coverage: regions later in the list win.
+ * Feathered borders blend the two patterns through an 8×8 Bayer threshold
+ * instead of cutting between them, which hides seams.
+ */
+import { BAYER_8, type DitherSettings } from "./dither";
+import { applyFilters } from "./filters";
+
+/** The settings a region overrides; everything else follows the main settings. */
+export type RegionLook = Pick<DitherSettings, "algorithm" | "threshold" | "brightness" | "contrast" | "gamma" | "invert">;
+
+export type Region = RegionLook & {
+  id: number;
+  name: string;
+  color: string; // overlay tint
+  enabled: boolean;
+  feather: number; // border softness in preview pixels
+};
+
+/** One region as sent to the worker, on the job's working grid. */
+export type RegionJob = {
+  settings: Omit<DitherSettings, "random">;
+  coverage: Uint8Array; // 0..255 per working pixel
+  feather: number; // in working pixels
+};
+
+export const REGION_COLORS = ["#f43f5e", "#3b82f6", "#22c55e", "#eab308", "#a855f7", "#06b6d4"];
+
+export function createRegion(id: number, name: string, look: RegionLook): Region {
+  const { algorithm, threshold, brightness, contrast, gamma, invert } = look;
+  return {
+    id,
+    name,
+    color: REGION_COLORS[(id - 1) % REGION_COLORS.length],
+    enabled: true,
+    feather: 4,
+    algorithm,
+    threshold,
+    brightness,
+    contrast,
+    gamma,
+    invert,
+  };
+}
+
+/** Coverage as 0..1 weights, softened by a Gaussian of `feather` working pixels. */
+export function regionWeights(coverage: Uint8Array, w: number, h: number, feather: number): Float32Array {
+  const plane = Float32Array.from(coverage);
+  const soft = feather > 0 ? applyFilters(plane, w, h, 1, [{ kind: "Gaussian Blur", enabled: true, params: { radius: feather } }]) : plane;
+  return soft.map((v) => v / 255);
+}
+
+/**
+ * Lays region results over `base` (in place): a pixel takes a region's
+ * index where its weight beats the ordered threshold at that pixel.
+ */
+export function compositeRegions(base: Uint8Array, layers: { mask: Uint8Array; weights: Float32Array }[], w: number, h: number): Uint8Array {
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      const t = (BAYER_8[y & 7][x & 7] + 0.5) / 64;
+      for (const layer of layers) if (layer.weights[i] > t) base[i] = layer.mask[i];
+    }
+  }
+  return base;
+}
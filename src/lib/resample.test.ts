@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { resample, RESAMPLE_METHODS, workingSize } from "./resample";
+
+// gray RGBA from one value per pixel
+function gray(values: number[]): Uint8ClampedArray {
+  return Uint8ClampedArray.from(values.flatMap((v) => [v, v, v, 255]));
+}
+
+const reds = (rgba: Uint8ClampedArray) => Array.from(rgba).filter((_, i) => i % 4 === 0);
+
+describe("workingSize", () => {
+  it("divides by the pixel size, rounding and never below one pixel", () => {
+    expect(workingSize(1000, 750, 4)).toEqual({ w: 250, h: 188 });
+    expect(workingSize(3, 3, 8)).toEqual({ w: 1, h: 1 });
+  });
+});
+
+describe("resample", () => {
+  it("copies pixels unchanged at the same size", () => {
+    const src = gray([1, 2, 3, 4]);
+    for (const method of RESAMPLE_METHODS) expect(resample(src, 2, 2, 2, 2, method)).toEqual(src);
+  });
+
+  it("averages every covered pixel when Box downsampling", () => {
+    // 4×2 → 2×1: each output is the mean of a 2×2 block
+    expect(reds(resample(gray([0, 100, 200, 200, 100, 0, 100, 100]), 4, 2, 2, 1, "Box"))).toEqual([50, 150]);
+  });
+
+  it("keeps a flat field flat with every method", () => {
+    const src = gray(new Array(7 * 5).fill(90));
+    for (const method of RESAMPLE_METHODS) {
+      expect(reds(resample(src, 7, 5, 3, 2, method)).every((v) => v === 90)).toBe(true);
+      expect(reds(resample(src, 7, 5, 11, 9, method)).every((v) => v === 90)).toBe(true);
+    }
+  });
+
+  it("does not skip pixels on large reductions", () => {
+    // a single bright pixel in 16 still shows up in the 1-pixel result
+    const values = new Array(16).fill(0);
+    values[5] = 255;
+    expect(reds(resample(gray(values), 16, 1, 1, 1, "Bilinear"))[0]).toBeGreaterThan(0);
+  });
+
+  it("repeats pixels when Box upsampling", () => {
+    expect(reds(resample(gray([10, 200]), 2, 1, 4, 1, "Box"))).toEqual([10, 10, 200, 200]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Resampling
+ * -------------------------------------------------------------
+ * Separable RGBA resampling used to bring the source down to the working
+ * grid before dithering (one working pixel per `pixelSize` source
+ * pixels). Filters widen with the scale factor, so downsampling averages
+ * every covered source pixel instead of skipping them.
+ */
+
+export const RESAMPLE_METHODS = ["Box", "Bilinear", "Lanczos"] as const;
+
+export type ResampleMethod = typeof RESAMPLE_METHODS[number];
+
+const SUPPORT: Record<ResampleMethod, number> = { Box: 0.5, Bilinear: 1, Lanczos: 3 };
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+function kernel(method: ResampleMethod, t: number): number {
+  const a = Math.abs(t);
+  switch (method) {
+    case "Box":
+      return a <= 0.5 ? 1 : 0;
+    case "Bilinear":
+      return Math.max(0, 1 - a);
+    case "Lanczos":
+      return a < 3 ? sinc(a) * sinc(a / 3) : 0;
+  }
+}
+
+/** Working grid for a source of `w`×`h` at `pixelSize` source pixels per working pixel. */
+export function workingSize(w: number, h: number, pixelSize: number): { w: number; h: number } {
+  return { w: Math.max(1, Math.round(w / pixelSize)), h: Math.max(1, Math.round(h / pixelSize)) };
+}
+
+type Taps = { start: Int32Array; count: Int32Array; weights: Float32Array; stride: number };
+
+// per output sample: first source index, tap count and normalised weights
+function taps(src: number, dst: number, method: ResampleMethod): Taps {
+  const scale = src / dst;
+  const widen = Math.max(1, scale);
+  const support = SUPPORT[method] * widen;
+  const stride = Math.ceil(support * 2) + 1;
+  const start = new Int32Array(dst);
+  const count = new Int32Array(dst);
+  const weights = new Float32Array(dst * stride);
+  for (let o = 0; o < dst; o++) {
+    const center = (o + 0.5) * scale;
+    const lo = Math.max(0, Math.floor(center - support));
+    const hi = Math.min(src - 1, Math.ceil(center + support) - 1);
+    let sum = 0;
+    let n = 0;
+    for (let i = lo; i <= hi && n < stride; i++, n++) sum += weights[o * stride + n] = kernel(method, (i + 0.5 - center) / widen);
+    if (sum === 0) {
+      // nothing fell inside the kernel (tiny box on upscale): take the nearest sample
+      n = 1;
+      weights[o * stride] = 1;
+      start[o] = Math.min(src - 1, Math.max(0, Math.floor(center)));
+    } else {
+      for (let k = 0; k < n; k++) weights[o * stride + k] /= sum;
+      start[o] = lo;
+    }
+    count[o] = n;
+  }
+  return { start, count, weights, stride };
+}
+
+/** Resamples RGBA pixels from `sw`×`sh` to `dw`×`dh`. */
+export function resample(rgba: ArrayLike<number>, sw: number, sh: number, dw: number, dh: number, method: ResampleMethod): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(dw * dh * 4);
+  if (sw === dw && sh === dh) {
+    for (let i = 0; i < out.length; i++) out[i] = rgba[i];
+    return out;
+  }
+  // horizontal pass into a float buffer, then vertical into bytes
+  const xt = taps(sw, dw, method);
+  const tmp = new Float32Array(dw * sh * 4);
+  for (let y = 0; y < sh; y++) {
+    for (let x = 0; x < dw; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      const s0 = xt.start[x];
+      for (let k = 0; k < xt.count[x]; k++) {
+        const wgt = xt.weights[x * xt.stride + k];
+        const i = (y * sw + s0 + k) * 4;
+        r += rgba[i] * wgt;
+        g += rgba[i + 1] * wgt;
+        b += rgba[i + 2] * wgt;
+        a += rgba[i + 3] * wgt;
+      }
+      const o = (y * dw + x) * 4;
+      tmp[o] = r;
+      tmp[o + 1] = g;
+      tmp[o + 2] = b;
+      tmp[o + 3] = a;
+    }
+  }
+  const yt = taps(sh, dh, method);
+  for (let y = 0; y < dh; y++) {
+    const s0 = yt.start[y];
+    for (let x = 0; x < dw; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let k = 0; k < yt.count[y]; k++) {
+        const wgt = yt.weights[y * yt.stride + k];
+        const i = ((s0 + k) * dw + x) * 4;
+        r += tmp[i] * wgt;
+        g += tmp[i + 1] * wgt;
+        b += tmp[i + 2] * wgt;
+        a += tmp[i + 3] * wgt;
+      }
+      const o = (y * dw + x) * 4;
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+      out[o + 3] = a;
+    }
+  }
+  return out;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { decodeSettingsHash, DEFAULT_SETTINGS, encodeSettingsHash, parseSettings, SETTINGS_VERSION, SettingsError, type EditorSettings } from "./settings";
+
+const custom: EditorSettings = {
+  ...DEFAULT_SETTINGS,
+  algorithm: "Jarvis–Judice–Ninke",
+  paletteKey: "Game Boy",
+  ditherSize: 8,
+  gamma: 1.35,
+  invert: true,
+  toneCurve: [
+    [0, 10],
+    [128, 150],
+    [255, 240],
+  ],
+  filters: [{ kind: "Gaussian Blur", enabled: true, params: { radius: 2 } }],
+  customKernelText: "- * 5\n1 2 1",
+};
+
+describe("settings hash", () => {
+  it("round-trips every field, including non-ASCII text", () => {
+    expect(decodeSettingsHash("#" + encodeSettingsHash(custom))).toEqual(custom);
+  });
+
+  it("is empty for the defaults and encodes only what differs", () => {
+    expect(encodeSettingsHash(DEFAULT_SETTINGS)).toBe("");
+    const hash = encodeSettingsHash({ ...DEFAULT_SETTINGS, seed: 42 });
+    const json = atob(hash.slice(2).replace(/-/g, "+").replace(/_/g, "/"));
+    expect(JSON.parse(json)).toEqual({ version: SETTINGS_VERSION, settings: { seed: 42 } });
+  });
+
+  it("uses URL-safe characters only", () => {
+    expect(encodeSettingsHash(custom)).toMatch(/^s=[A-Za-z0-9_-]+$/);
+  });
+
+  it("returns null for missing or unreadable hashes", () => {
+    expect(decodeSettingsHash("")).toBeNull();
+    expect(decodeSettingsHash("#other=1")).toBeNull();
+    expect(decodeSettingsHash("#s=%%%")).toBeNull();
+  });
+});
+
+describe("parseSettings", () => {
+  it("accepts the versioned envelope and bare objects", () => {
+    expect(parseSettings({ version: SETTINGS_VERSION, settings: custom })).toEqual(custom);
+    expect(parseSettings({ gamma: 2 })).toEqual({ ...DEFAULT_SETTINGS, gamma: 2 });
+  });
+
+  it("rejects newer versions and malformed envelopes", () => {
+    expect(() => parseSettings({ version: SETTINGS_VERSION + 1, settings: {} })).toThrow(SettingsError);
+    expect(() => parseSettings({ version: 1, settings: [] })).toThrow(SettingsError);
+    expect(() => parseSettings("gamma=2")).toThrow(SettingsError);
+  });
+
+  it("falls back to defaults for unknown keys and invalid values", () => {
+    const parsed = parseSettings({ algorithm: "Crayon", gamma: "high", extra: 1, contrast: 500 });
+    expect(parsed).toEqual({ ...DEFAULT_SETTINGS, contrast: 100 });
+  });
+
+  it("only allows the offered noise textures and pixel sizes", () => {
+    // a 256 map would take O(n²) over 65 536 cells to build
+    expect(parseSettings({ blueNoiseSize: 256, ditherSize: 3 })).toMatchObject({ blueNoiseSize: 128, ditherSize: 2 });
+    expect(parseSettings({ blueNoiseSize: 4, ditherSize: 1000 })).toMatchObject({ blueNoiseSize: 16, ditherSize: 32 });
+  });
+
+  it("keeps the black point below the white point", () => {
+    expect(parseSettings({ levelsBlack: 200, levelsWhite: 100 })).toMatchObject({ levelsBlack: 200, levelsWhite: 201 });
+  });
+
+  it("sorts tone curve points and drops filters it does not know", () => {
+    const parsed = parseSettings({
+      toneCurve: [
+        [255, 255],
+        [0, 0],
+        [0, 9],
+      ],
+      filters: [{ kind: "Sharpen Everything" }, { kind: "Gaussian Blur", params: { radius: 999 } }],
+    });
+    expect(parsed.toneCurve).toEqual([
+      [0, 0],
+      [255, 255],
+    ]);
+    expect(parsed.filters.map((f) => f.kind)).toEqual(["Gaussian Blur"]);
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * Editor settings
+ * -------------------------------------------------------------
+ * The full "look" of a dither (everything except the image and export
+ * target) as one plain, versioned object. It is what presets store, what
+ * JSON files carry and what the URL hash encodes. `parseSettings` is the
+ * single entry point for untrusted input: it migrates old versions,
+ * drops unknown keys and falls back to defaults for invalid values.
+ */
+import { ALGORITHMS, COLOR_METRICS, DITHER_SIZES, LUMA_MODELS, type Algorithm, type ColorMetric, type ColorMode, type LumaModel } from "./dither";
+import { HALFTONE_SHAPES, type HalftoneShape } from "./halftone";
+import { BLUE_NOISE_SIZES } from "./blueNoise";
+import { IDENTITY_CURVE, type CurvePoint } from "./tone";
+import { FILTER_KINDS, FILTER_PARAMS, type FilterStep } from "./filters";
+import { RESAMPLE_METHODS, type ResampleMethod } from "./resample";
+
+export const SETTINGS_VERSION = 1;
+
+export type EditorSettings = {
+  algorithm: Algorithm;
+  paletteKey: string;
+  colorMode: ColorMode;
+  colorMetric: ColorMetric;
+  lumaModel: LumaModel;
+  linearLight: boolean;
+  ditherSize: number; // source pixels per working pixel
+  resample: ResampleMethod;
+  brightness: number; // -100..100
+  contrast: number; // -100..100
+  gamma: number; // 0.2..3
+  invert: boolean;
+  levelsBlack: number; // 0..254
+  levelsWhite: number; // 1..255
+  levelsMid: number; // 0.1..10 mid-tone gamma
+  toneCurve: CurvePoint[];
+  filters: FilterStep[];
+  threshold: number; // 0..255 (for Threshold algo)
+  blueNoiseSize: number;
+  halftoneShape: HalftoneShape;
+  halftoneCell: number; // px per screen cell
+  halftoneAngle: number; // degrees
+  seed: number; // Random algo
+  noiseAmplitude: number; // 0..200 %
+  serpentine: boolean;
+  errorStrength: number; // 0..150 %
+  customKernelText: string;
+};
+
+export const DEFAULT_SETTINGS: EditorSettings = {
+  algorithm: "Floyd–Steinberg",
+  paletteKey: "Black & White",
+  colorMode: "gray",
+  colorMetric: "RGB",
+  lumaModel: "Rec. 709",
+  linearLight: false,
+  ditherSize: 4,
+  resample: "Box",
+  brightness: 0,
+  contrast: 0,
+  gamma: 1,
+  invert: false,
+  levelsBlack: 0,
+  levelsWhite: 255,
+  levelsMid: 1,
+  toneCurve: IDENTITY_CURVE,
+  filters: [],
+  threshold: 128,
+  blueNoiseSize: 64,
+  halftoneShape: "Round",
+  halftoneCell: 8,
+  halftoneAngle: 45,
+  seed: 1,
+  noiseAmplitude: 100,
+  serpentine: false,
+  errorStrength: 100,
+  customKernelText: "- * 7\n3 5 1",
+};
+
+export const SETTING_LABELS: Record<keyof EditorSettings, string> = {
+  algorithm: "Algorithm",
+  paletteKey: "Palette",
+  colorMode: "Color mode",
+  colorMetric: "Color metric",
+  lumaModel: "Luma",
+  linearLight: "Linear light",
+  ditherSize: "Pixel size",
+  resample: "Resampling",
+  brightness: "Brightness",
+  contrast: "Contrast",
+  gamma: "Gamma",
+  invert: "Invert",
+  levelsBlack: "Black point",
+  levelsWhite: "White point",
+  levelsMid: "Mid tones",
+  toneCurve: "Tone curve",
+  filters: "Filters",
+  threshold: "Threshold",
+  blueNoiseSize: "Noise texture",
+  halftoneShape: "Dot shape",
+  halftoneCell: "Cell size",
+  halftoneAngle: "Screen angle",
+  seed: "Seed",
+  noiseAmplitude: "Noise amplitude",
+  serpentine: "Serpentine",
+  errorStrength: "Error strength",
+  customKernelText: "Custom kernel",
+};
+
+/** Short human label for a settings patch, e.g. "Gamma 1.20" or "Invert on". */
+export function describeChange(patch: Partial<EditorSettings>): string {
+  const keys = Object.keys(patch) as (keyof EditorSettings)[];
+  if (keys.length !== 1) return keys.map((k) => SETTING_LABELS[k]).join(", ");
+  const key = keys[0];
+  const v = patch[key];
+  const shown =
+    typeof v === "boolean" ? (v ? "on" : "off") : typeof v === "number" ? (Number.isInteger(v) ? v : v.toFixed(2)) : typeof v === "string" && key !== "customKernelText" ? v : "";
+  return `${SETTING_LABELS[key]} ${shown}`.trim();
+}
+
+export class SettingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SettingsError";
+  }
+}
+
+// ---------- Validation ----------
+export type NumberRange = { min: number; max: number; whole?: boolean };
+
+/** Bounds of the numeric settings; `parseSettings` clamps (and rounds whole ones) to them. */
+export const SETTING_RANGES: Partial<Record<keyof EditorSettings, NumberRange>> = {
+  brightness: { min: -100, max: 100 },
+  contrast: { min: -100, max: 100 },
+  gamma: { min: 0.2, max: 3 },
+  levelsBlack: { min: 0, max: 254, whole: true },
+  levelsWhite: { min: 1, max: 255, whole: true },
+  levelsMid: { min: 0.1, max: 10 },
+  threshold: { min: 0, max: 255, whole: true },
+  halftoneCell: { min: 2, max: 64 },
+  halftoneAngle: { min: -180, max: 180 },
+  seed: { min: 0, max: 4294967295, whole: true },
+  noiseAmplitude: { min: 0, max: 200 },
+  errorStrength: { min: 0, max: 150 },
+};
+
+function num(v: unknown, min: number, max: number, fallback: number): number {
+  return typeof v === "number" && Number.isFinite(v) ? Math.max(min, Math.min(max, v)) : fallback;
+}
+function bool(v: unknown, fallback: boolean): boolean {
+  return typeof v === "boolean" ? v : fallback;
+}
+function oneOf<T extends string>(v: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(v as T) ? (v as T) : fallback;
+}
+// the option closest to a numeric value
+function nearest(v: unknown, options: readonly number[], fallback: number): number {
+  if (typeof v !== "number" || !Number.isFinite(v)) return fallback;
+  return options.reduce((best, o) => (Math.abs(o - v) < Math.abs(best - v) ? o : best));
+}
+function str(v: unknown, fallback: string): string {
+  return typeof v === "string" ? v : fallback;
+}
+// at least two [x, y] points in 0..255, sorted, one per x
+function curve(v: unknown, fallback: CurvePoint[]): CurvePoint[] {
+  if (!Array.isArray(v)) return fallback;
+  const points = v
+    .filter((p): p is [number, number] => Array.isArray(p) && p.length === 2 && p.every((n) => typeof n === "number" && Number.isFinite(n)))
+    .map(([x, y]): CurvePoint => [Math.round(num(x, 0, 255, 0)), Math.round(num(y, 0, 255, 0))])
+    .sort((a, b) => a[0] - b[0])
+    .filter((p, i, all) => i === 0 || p[0] !== all[i - 1][0]);
+  return points.length >= 2 ? points : fallback;
+}
+// unknown kinds are dropped, parameters clamped to their ranges
+function filterSteps(v: unknown): FilterStep[] {
+  if (!Array.isArray(v)) return [];
+  return v.filter(isObject).flatMap((raw): FilterStep[] => {
+    const kind = oneOf(raw.kind, FILTER_KINDS, FILTER_KINDS[0]);
+    if (kind !== raw.kind) return [];
+    const params = isObject(raw.params) ? raw.params : {};
+    return [
+      {
+        kind,
+        enabled: bool(raw.enabled, true),
+        params: Object.fromEntries(FILTER_PARAMS[kind].map((p) => [p.key, num(params[p.key], p.min, p.max, p.default)])),
+      },
+    ];
+  });
+}
+
+function validate(raw: Record<string, unknown>): EditorSettings {
+  const d = DEFAULT_SETTINGS;
+  const ranged = (key: keyof EditorSettings) => {
+    const { min, max } = SETTING_RANGES[key]!;
+    return num(raw[key], min, max, d[key] as number);
+  };
+  // the black point must stay below the white point
+  const levelsBlack = Math.round(ranged("levelsBlack"));
+  const levelsWhite = Math.max(levelsBlack + 1, Math.round(ranged("levelsWhite")));
+  return {
+    algorithm: oneOf(raw.algorithm, ALGORITHMS, d.algorithm),
+    paletteKey: str(raw.paletteKey, d.paletteKey),
+    colorMode: oneOf(raw.colorMode, ["gray", "rgb"] as const, d.colorMode),
+    colorMetric: oneOf(raw.colorMetric, COLOR_METRICS, d.colorMetric),
+    lumaModel: oneOf(raw.lumaModel, LUMA_MODELS, d.lumaModel),
+    linearLight: bool(raw.linearLight, d.linearLight),
+    ditherSize: nearest(raw.ditherSize, DITHER_SIZES, d.ditherSize),
+    resample: oneOf(raw.resample, RESAMPLE_METHODS, d.resample),
+    brightness: ranged("brightness"),
+    contrast: ranged("contrast"),
+    gamma: ranged("gamma"),
+    invert: bool(raw.invert, d.invert),
+    levelsBlack,
+    levelsWhite,
+    levelsMid: ranged("levelsMid"),
+    toneCurve: curve(raw.toneCurve, d.toneCurve),
+    filters: filterSteps(raw.filters),
+    threshold: Math.round(ranged("threshold")),
+    // the map is built in O(n²) of its area, so only the sizes the editor offers
+    blueNoiseSize: nearest(raw.blueNoiseSize, BLUE_NOISE_SIZES, d.blueNoiseSize),
+    halftoneShape: oneOf(raw.halftoneShape, HALFTONE_SHAPES, d.halftoneShape),
+    halftoneCell: ranged("halftoneCell"),
+    halftoneAngle: ranged("halftoneAngle"),
+    seed: Math.floor(ranged("seed")),
+    noiseAmplitude: ranged("noiseAmplitude"),
+    serpentine: bool(raw.serpentine, d.serpentine),
+    errorStrength: ranged("errorStrength"),
+    customKernelText: str(raw.customKernelText, d.customKernelText),
+  };
+}
+
+// Upgrades a versioned payload to the current shape. Version 0 is the bare
+// settings object without an envelope.
+function migrate(version: number, raw: Record<string, unknown>): Record<string, unknown> {
+  if (version > SETTINGS_VERSION) throw new SettingsError(`Settings version ${version} is newer than this editor (${SETTINGS_VERSION})`);
+  return raw;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/** Accepts `{ version, settings }` or a bare settings object. */
+export function parseSettings(input: unknown): EditorSettings {
+  if (!isObject(input)) throw new SettingsError("Settings must be an object");
+  if ("version" in input) {
+    if (typeof input.version !== "number" || !isObject(input.settings)) throw new SettingsError("Malformed settings file");
+    return validate(migrate(input.version, input.settings));
+  }
+  return validate(migrate(0, input));
+}
+
+// ---------- URL hash ----------
+// Only values that differ from the defaults are encoded, as base64url JSON.
+const HASH_KEY = "s";
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): string {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+}
+
+export function encodeSettingsHash(settings: EditorSettings): string {
+  const diff: Partial<Record<keyof EditorSettings, unknown>> = {};
+  (Object.keys(settings) as (keyof EditorSettings)[]).forEach((k) => {
+    if (JSON.stringify(settings[k]) !== JSON.stringify(DEFAULT_SETTINGS[k])) diff[k] = settings[k];
+  });
+  if (!Object.keys(diff).length) return "";
+  return `${HASH_KEY}=${toBase64Url(JSON.stringify({ version: SETTINGS_VERSION, settings: diff }))}`;
+}
+
+/** Returns null when the hash carries no settings or they cannot be read. */
+export function decodeSettingsHash(hash: string): EditorSettings | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const encoded = params.get(HASH_KEY);
+  if (!encoded) return null;
+  try {
+    return parseSettings(JSON.parse(fromBase64Url(encoded)));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { maskToSvg } from "./svg";
+
+const palette = ["#000000", "#ffffff", "#ff0000"];
+
+// 6×3: black on the left, a white ring with a black hole on the right
+const ring = [0, 0, 0, 1, 1, 1, 0, 0, 0, 1, 0, 1, 0, 0, 0, 1, 1, 1];
+
+// fill and path data of every <path>
+function paths(svg: string): [string, string][] {
+  return [...svg.matchAll(/<path fill="([^"]+)" d="([^"]+)"\/>/g)].map((m) => [m[1], m[2]]);
+}
+
+describe("maskToSvg", () => {
+  it("paints the most common colour as the background rect", () => {
+    const svg = maskToSvg([0, 1, 1, 0, 1, 1], 3, 2, palette);
+    expect(svg).toContain('<rect width="3" height="2" fill="#ffffff"/>');
+    expect(paths(svg)).toEqual([["#000000", "M0 0h1v2h-1z"]]);
+  });
+
+  it("merges runs repeated on the next rows into one rect", () => {
+    expect(paths(maskToSvg(ring, 6, 3, palette))).toEqual([["#ffffff", "M3 0h3v1h-3zM3 1h1v1h-1zM5 1h1v1h-1zM3 2h3v1h-3z"]]);
+  });
+
+  it("traces outlines clockwise and holes counter-clockwise", () => {
+    expect(paths(maskToSvg(ring, 6, 3, palette, { geometry: "outlines" }))).toEqual([["#ffffff", "M3 0h3v3h-3v-3zM5 1h-1v1h1v-1z"]]);
+  });
+
+  it("writes one path per palette colour in use", () => {
+    const svg = maskToSvg([2, 1, 0, 0, 0, 0], 3, 2, palette);
+    expect(paths(svg).map(([fill]) => fill)).toEqual(["#ffffff", "#ff0000"]);
+    expect(paths(maskToSvg([0, 0, 1, 1], 2, 2, palette))).toHaveLength(1);
+  });
+
+  it("scales by the unit and sizes in inches with a DPI", () => {
+    const svg = maskToSvg([2, 1, 0, 0, 0, 0], 3, 2, palette, { unit: 2, dpi: 300 });
+    expect(svg).toContain('width="0.02in" height="0.0133in" viewBox="0 0 6 4"');
+    expect(paths(svg)).toEqual([
+      ["#ffffff", "M2 0h2v2h-2z"],
+      ["#ff0000", "M0 0h2v2h-2z"],
+    ]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * SVG export
+ * -------------------------------------------------------------
+ * Vectorizes a palette-index mask. The most common colour becomes a
+ * single background rect; every other colour becomes one <path>, either
+ * as horizontal runs (merged downwards into rectangles when consecutive
+ * rows repeat them) or as traced region outlines with holes. One mask
+ * pixel maps to `unit` user units.
+ */
+import type { Palette } from "./palettes";
+
+export type SvgGeometry = "runs" | "outlines";
+
+export type SvgOptions = {
+  geometry?: SvgGeometry; // defaults to "runs"
+  unit?: number; // user units per mask pixel, defaults to 1
+  dpi?: number; // when set, width/height are given in inches
+};
+
+export function maskToSvg(indices: ArrayLike<number>, w: number, h: number, palette: Palette, options: SvgOptions = {}): string {
+  const { geometry = "runs", unit = 1, dpi } = options;
+  const counts = new Uint32Array(palette.length);
+  for (let p = 0; p < w * h; p++) counts[indices[p]]++;
+  let bg = 0;
+  for (let k = 1; k < counts.length; k++) if (counts[k] > counts[bg]) bg = k;
+
+  const W = w * unit;
+  const H = h * unit;
+  const size = dpi ? `width="${+(W / dpi).toFixed(4)}in" height="${+(H / dpi).toFixed(4)}in"` : `width="${W}" height="${H}"`;
+  const out: string[] = [
+    `<svg xmlns="http://www.w3.org/2000/svg" ${size} viewBox="0 0 ${W} ${H}" shape-rendering="crispEdges">`,
+    `<rect width="${W}" height="${H}" fill="${palette[bg]}"/>`,
+  ];
+  for (let k = 0; k < palette.length; k++) {
+    if (k === bg || !counts[k]) continue;
+    const d = geometry === "outlines" ? outlinePath(indices, w, h, k, unit) : runsPath(indices, w, h, k, unit);
+    out.push(`<path fill="${palette[k]}" d="${d}"/>`);
+  }
+  out.push("</svg>");
+  return out.join("\n");
+}
+
+// Horizontal runs of colour k; a run repeated on the following rows grows into a taller rect.
+function runsPath(indices: ArrayLike<number>, w: number, h: number, k: number, unit: number): string {
+  const parts: string[] = [];
+  // open rects keyed by "x0,x1" -> starting row
+  let open = new Map<string, number>();
+  const flush = (key: string, y0: number, y1: number) => {
+    const [x0, x1] = key.split(",").map(Number);
+    parts.push(`M${x0 * unit} ${y0 * unit}h${(x1 - x0) * unit}v${(y1 - y0) * unit}h${-(x1 - x0) * unit}z`);
+  };
+  for (let y = 0; y <= h; y++) {
+    const next = new Map<string, number>();
+    if (y < h) {
+      for (let x = 0; x < w; ) {
+        if (indices[y * w + x] !== k) {
+          x++;
+          continue;
+        }
+        const x0 = x;
+        while (x < w && indices[y * w + x] === k) x++;
+        const key = `${x0},${x}`;
+        next.set(key, open.get(key) ?? y);
+        open.delete(key);
+      }
+    }
+    open.forEach((y0, key) => flush(key, y0, y));
+    open = next;
+  }
+  return parts.join("");
+}
+
+// Traces the boundary of every region of colour k. Edges run clockwise around
+// filled pixels, so holes come out counter-clockwise and nonzero fill keeps them open.
+function outlinePath(indices: ArrayLike<number>, w: number, h: number, k: number, unit: number): string {
+  const W1 = w + 1;
+  const at = (x: number, y: number) => x >= 0 && y >= 0 && x < w && y < h && indices[y * w + x] === k;
+
+  // outgoing edges per grid vertex (at most two where regions touch diagonally)
+  const next = new Map<number, number[]>();
+  const edge = (x0: number, y0: number, x1: number, y1: number) => {
+    const from = y0 * W1 + x0;
+    const list = next.get(from);
+    if (list) list.push(y1 * W1 + x1);
+    else next.set(from, [y1 * W1 + x1]);
+  };
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (!at(x, y)) continue;
+      if (!at(x, y - 1)) edge(x, y, x + 1, y);
+      if (!at(x + 1, y)) edge(x + 1, y, x + 1, y + 1);
+      if (!at(x, y + 1)) edge(x + 1, y + 1, x, y + 1);
+      if (!at(x - 1, y)) edge(x, y + 1, x, y);
+    }
+  }
+
+  const parts: string[] = [];
+  next.forEach((_, start) => {
+    while (next.get(start)?.length) {
+      // walk one loop, emitting a point only where the direction changes
+      const pts: number[] = [start];
+      let v = start;
+      do {
+        const list = next.get(v)!;
+        const to = list.pop()!;
+        if (!list.length) next.delete(v);
+        pts.push(to);
+        v = to;
+      } while (v !== start && next.has(v));
+
+      let d = "";
+      let px = start % W1;
+      let py = (start - px) / W1;
+      d += `M${px * unit} ${py * unit}`;
+      for (let i = 1; i < pts.length; i++) {
+        const nx = pts[i] % W1;
+        const ny = (pts[i] - nx) / W1;
+        const following = pts[i + 1];
+        if (following !== undefined) {
+          const fx = following % W1;
+          const fy = (following - fx) / W1;
+          if ((fx === nx && nx === px) || (fy === ny && ny === py)) continue; // collinear
+        }
+        d += nx === px ? `v${(ny - py) * unit}` : `h${(nx - px) * unit}`;
+        px = nx;
+        py = ny;
+      }
+      parts.push(d + "z");
+    }
+  });
+  return parts.join("");
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { toneLut } from "./dither";
+import { applyLevels, autoLevels, histogram, IDENTITY_CURVE, toneCurve, type CurvePoint } from "./tone";
+
+const tonal = { brightness: 0, contrast: 0, gamma: 1, invert: false };
+
+// an S-curve with a steep rise and a near-flat shoulder, which plain cubics overshoot
+const S_CURVE: CurvePoint[] = [
+  [0, 0],
+  [64, 200],
+  [128, 210],
+  [255, 255],
+];
+
+function isMonotone(values: ArrayLike<number>): boolean {
+  for (let i = 1; i < values.length; i++) if (values[i] < values[i - 1]) return false;
+  return true;
+}
+
+describe("toneCurve", () => {
+  it("is the identity for the identity curve", () => {
+    const f = toneCurve(IDENTITY_CURVE);
+    for (const x of [0, 1, 100, 254.5, 255]) expect(f(x)).toBeCloseTo(x, 6);
+  });
+
+  it("passes through its points and stays flat beyond the ends", () => {
+    const f = toneCurve([
+      [224, 240],
+      [32, 10],
+    ]);
+    expect([f(0), f(32), f(224), f(255)]).toEqual([10, 10, 240, 240]);
+    const s = toneCurve(S_CURVE);
+    for (const [x, y] of S_CURVE) expect(s(x)).toBeCloseTo(y, 6);
+  });
+
+  it("never overshoots or turns back between points", () => {
+    const f = toneCurve(S_CURVE);
+    const samples = Array.from({ length: 511 }, (_, i) => f(i / 2));
+    expect(isMonotone(samples)).toBe(true);
+    expect(Math.min(...samples)).toBeGreaterThanOrEqual(0);
+    expect(Math.max(...samples)).toBeLessThanOrEqual(255);
+  });
+});
+
+describe("applyLevels", () => {
+  it("maps the black and white points to the ends and clips beyond them", () => {
+    const levels = { black: 20, white: 200, mid: 1 };
+    expect([applyLevels(0, levels), applyLevels(20, levels), applyLevels(110, levels), applyLevels(200, levels), applyLevels(255, levels)]).toEqual([0, 0, 127.5, 255, 255]);
+  });
+
+  it("brightens mid-tones with a mid gamma above 1", () => {
+    expect(applyLevels(128, { black: 0, white: 255, mid: 2 })).toBeGreaterThan(180);
+  });
+});
+
+describe("toneLut", () => {
+  it("is the identity for neutral settings", () => {
+    expect(Array.from(toneLut(tonal))).toEqual(Array.from({ length: 256 }, (_, i) => i));
+  });
+
+  it("pins the endpoints to the levels and flips them when inverted", () => {
+    const lut = toneLut({ ...tonal, levelsBlack: 20, levelsWhite: 200 });
+    expect([lut[0], lut[20], lut[200], lut[255]]).toEqual([0, 0, 255, 255]);
+    const inverted = toneLut({ ...tonal, levelsBlack: 20, levelsWhite: 200, invert: true });
+    expect([inverted[0], inverted[255]]).toEqual([255, 0]);
+  });
+
+  it("stays monotone through levels, a curve and the adjustments", () => {
+    const lut = toneLut({ ...tonal, levelsBlack: 10, levelsWhite: 240, levelsMid: 1.4, toneCurve: S_CURVE, contrast: 30, gamma: 0.8 });
+    expect(isMonotone(lut)).toBe(true);
+    expect([lut[0], lut[255]]).toEqual([0, 255]);
+  });
+});
+
+describe("histogram", () => {
+  it("rounds values into bins and clamps out-of-range ones", () => {
+    const bins = histogram([-5, 0.4, 127.5, 254.6, 300]);
+    expect([bins[0], bins[128], bins[255]]).toEqual([2, 1, 2]);
+    expect(bins.reduce((a, b) => a + b, 0)).toBe(5);
+  });
+});
+
+describe("autoLevels", () => {
+  // most pixels spread over 60..190 with a few stray ones near either end
+  const bins = new Uint32Array(256);
+  for (let v = 60; v <= 190; v++) bins[v] = 100;
+  bins[10] = 2;
+  bins[250] = 2;
+
+  it("clips stray pixels at both ends", () => {
+    expect(autoLevels(bins)).toEqual({ black: 60, white: 190 });
+  });
+
+  it("keeps every pixel without clipping", () => {
+    expect(autoLevels(bins, 0)).toEqual({ black: 10, white: 250 });
+  });
+
+  it("keeps the white point above the black point for a flat image", () => {
+    const flat = new Uint32Array(256);
+    flat[128] = 100;
+    expect(autoLevels(flat)).toEqual({ black: 128, white: 129 });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Levels, curves and histograms
+ * -------------------------------------------------------------
+ * Building blocks for the tone lookup table in `dither.ts`: a smooth,
+ * monotone tone curve through user points, the levels transfer
+ * (black/white points and a mid-tone gamma) and histogram helpers
+ * including percentile-based auto-levels.
+ */
+
+/** Curve control point, both coordinates 0..255. */
+export type CurvePoint = [number, number];
+
+export const IDENTITY_CURVE: CurvePoint[] = [
+  [0, 0],
+  [255, 255],
+];
+
+/**
+ * Monotone cubic (Fritsch–Carlson) interpolation through `points`, sorted
+ * by x. Beyond the first and last point the curve is flat.
+ */
+export function toneCurve(points: CurvePoint[]): (x: number) => number {
+  const pts = [...points].sort((a, b) => a[0] - b[0]);
+  const n = pts.length;
+  if (n < 2) return (x) => x;
+  const xs = pts.map((p) => p[0]);
+  const ys = pts.map((p) => p[1]);
+  const d: number[] = []; // secant slopes
+  for (let i = 0; i < n - 1; i++) d.push((ys[i + 1] - ys[i]) / Math.max(1e-6, xs[i + 1] - xs[i]));
+  const m: number[] = [d[0]];
+  for (let i = 1; i < n - 1; i++) m.push(d[i - 1] * d[i] <= 0 ? 0 : (d[i - 1] + d[i]) / 2);
+  m.push(d[n - 2]);
+  // limit tangents so each segment stays monotone
+  for (let i = 0; i < n - 1; i++) {
+    if (d[i] === 0) {
+      m[i] = m[i + 1] = 0;
+      continue;
+    }
+    const a = m[i] / d[i];
+    const b = m[i + 1] / d[i];
+    const s = a * a + b * b;
+    if (s > 9) {
+      const t = 3 / Math.sqrt(s);
+      m[i] = t * a * d[i];
+      m[i + 1] = t * b * d[i];
+    }
+  }
+  return (x) => {
+    if (x <= xs[0]) return ys[0];
+    if (x >= xs[n - 1]) return ys[n - 1];
+    let i = 0;
+    while (x > xs[i + 1]) i++;
+    const h = xs[i + 1] - xs[i];
+    const t = (x - xs[i]) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return (
+      (2 * t3 - 3 * t2 + 1) * ys[i] + (t3 - 2 * t2 + t) * h * m[i] + (-2 * t3 + 3 * t2) * ys[i + 1] + (t3 - t2) * h * m[i + 1]
+    );
+  };
+}
+
+export type Levels = {
+  black: number; // input value mapped to 0
+  white: number; // input value mapped to 255
+  mid: number; // mid-tone gamma, 1 = linear, >1 brightens
+};
+
+export function applyLevels(v: number, { black, white, mid }: Levels): number {
+  const x = Math.max(0, Math.min(1, (v - black) / Math.max(1, white - black)));
+  return 255 * (mid === 1 ? x : x ** (1 / mid));
+}
+
+// ---------- Histogram ----------
+/** 256-bin histogram of `values` (0..255, rounded). */
+export function histogram(values: ArrayLike<number>): Uint32Array {
+  const bins = new Uint32Array(256);
+  for (let i = 0; i < values.length; i++) bins[Math.max(0, Math.min(255, Math.round(values[i])))]++;
+  return bins;
+}
+
+/** Black and white points that clip `clip` (a fraction) of the pixels at each end. */
+export function autoLevels(bins: ArrayLike<number>, clip = 0.005): { black: number; white: number } {
+  let total = 0;
+  for (let i = 0; i < 256; i++) total += bins[i];
+  const limit = total * clip;
+  let black = 0;
+  for (let acc = bins[0]; black < 254 && acc <= limit; acc += bins[++black]);
+  let white = 255;
+  for (let acc = bins[255]; white > black + 1 && acc <= limit; acc += bins[--white]);
+  return { black, white };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { crc32 } from "./png";
+import { createZip, uniqueNames } from "./zip";
+
+type Listed = { name: string; data: Uint8Array; crc: number; time: number; date: number };
+
+// walks the central directory the way an unzip tool does and reads each
+// entry back through its local header
+function readZip(zip: Uint8Array): Listed[] {
+  const view = new DataView(zip.buffer, zip.byteOffset);
+  const end = zip.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let p = view.getUint32(end + 16, true);
+  const out: Listed[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(p, true)).toBe(0x02014b50);
+    const size = view.getUint32(p + 24, true);
+    const nameLength = view.getUint16(p + 28, true);
+    const local = view.getUint32(p + 42, true);
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    out.push({
+      name: new TextDecoder().decode(zip.subarray(p + 46, p + 46 + nameLength)),
+      data: zip.subarray(start, start + size),
+      crc: view.getUint32(p + 16, true),
+      time: view.getUint16(p + 12, true),
+      date: view.getUint16(p + 14, true),
+    });
+    p += 46 + nameLength;
+  }
+  return out;
+}
+
+describe("createZip", () => {
+  it("stores every entry with its name, bytes and checksum", async () => {
+    const entries = [
+      { name: "a.png", data: new Uint8Array([1, 2, 3]) },
+      { name: "ünïcode name.png", data: new Uint8Array(1000).map((_, i) => i & 255) },
+      { name: "empty.txt", data: new Uint8Array(0) },
+    ];
+    const listed = readZip(new Uint8Array(await createZip(entries).arrayBuffer()));
+    expect(listed.map((e) => e.name)).toEqual(entries.map((e) => e.name));
+    listed.forEach((e, i) => {
+      expect(e.data).toEqual(entries[i].data);
+      expect(e.crc).toBe(crc32(entries[i].data));
+    });
+  });
+
+  it("stamps entries with the DOS date and time", async () => {
+    const [entry] = readZip(new Uint8Array(await createZip([{ name: "a", data: new Uint8Array(1) }], new Date(2024, 2, 15, 13, 45, 30)).arrayBuffer()));
+    expect(entry.time).toBe((13 << 11) | (45 << 5) | 15);
+    expect(entry.date).toBe(((2024 - 1980) << 9) | (3 << 5) | 15);
+  });
+});
+
+describe("uniqueNames", () => {
+  it("numbers repeats before the extension", () => {
+    expect(uniqueNames(["a.png", "a.png", "b", "b", "a.png", "a-2.png"])).toEqual(["a.png", "a-2.png", "b", "b-2", "a-3.png", "a-2-2.png"]);
+  });
+});